@@ -0,0 +1,241 @@
+import { setIcon } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient, WebDAVResource } from './webdav-client';
+import { formatSize } from './format';
+import { getFileType, getMimeType } from './file-types';
+
+// 可以在笔记中直接预览的非图片附件
+export type PreviewType = 'pdf' | 'audio' | 'video' | 'text';
+
+interface AttachmentPreviewHost {
+    settings: {
+        previewMaxSize: number; // MB，超过时需点击后才下载预览，0 表示不预览
+    };
+    getClientForUrl(url: string): WebDAVClient | null;
+}
+
+// 内置播放器和 PDF 查看器支持的格式；服务器常返回 application/octet-stream，下载后按扩展名给出正确的类型
+const MEDIA_TYPES: Record<string, PreviewType> = {
+    '.pdf': 'pdf',
+    '.mp3': 'audio',
+    '.wav': 'audio',
+    '.m4a': 'audio',
+    '.flac': 'audio',
+    '.ogg': 'audio',
+    '.aac': 'audio',
+    '.mp4': 'video',
+    '.m4v': 'video',
+    '.mov': 'video',
+    '.webm': 'video',
+    '.mkv': 'video'
+};
+
+const TEXT_EXTENSIONS = [
+    '.txt', '.md', '.csv', '.log', '.json', '.xml', '.yaml', '.yml', '.toml', '.ini',
+    '.js', '.ts', '.py', '.java', '.c', '.cpp', '.h', '.cs', '.go', '.rs', '.rb', '.php',
+    '.sh', '.ps1', '.bat', '.sql', '.css', '.html', '.swift', '.kt'
+];
+
+// 文本文件只请求并显示开头部分
+const TEXT_PREVIEW_LIMIT = 256 * 1024;
+// 音视频和 PDF 需完整下载后交给播放器/查看器，内存中保留的 blob 总大小上限，超出时释放最久未使用的
+const BLOB_MEMORY_LIMIT = 200 * 1024 * 1024;
+
+const FILE_TYPE_ICONS: Record<string, string> = {
+    image: 'file-image',
+    video: 'file-video',
+    audio: 'file-audio',
+    document: 'file-text',
+    archive: 'file-archive',
+    other: 'file'
+};
+
+// URL 中已解码的文件名，不含查询参数
+export function getFileName(url: string): string {
+    const name = path.posix.basename(url.split(/[?#]/)[0]);
+    try {
+        return decodeURIComponent(name);
+    } catch (e) {
+        return name;
+    }
+}
+
+function getExtension(url: string): string {
+    return path.posix.extname(getFileName(url)).toLowerCase();
+}
+
+export function getPreviewType(url: string): PreviewType | null {
+    const ext = getExtension(url);
+    if (MEDIA_TYPES[ext]) return MEDIA_TYPES[ext];
+    return TEXT_EXTENSIONS.indexOf(ext) >= 0 ? 'text' : null;
+}
+
+// 阅读视图与实时阅览共用：使用凭据下载附件并在笔记中显示，音视频和 PDF 通过 blob URL 交给内置播放器/查看器
+export class AttachmentPreviews {
+    host: AttachmentPreviewHost;
+    private resources = new Map<string, Promise<WebDAVResource | null>>(); // URL -> 文件信息
+    private downloads = new Map<string, Promise<string>>(); // 正在下载的 URL -> blob URL，同一文件只下载一次
+    private blobs = new Map<string, { blobUrl: string; size: number }>(); // 已下载的 URL -> blob URL，按最近使用排序
+
+    constructor(host: AttachmentPreviewHost) {
+        this.host = host;
+    }
+
+    // 在 container 中渲染附件的标题行和预览内容
+    render(container: HTMLElement, url: string, name: string) {
+        const type = getPreviewType(url);
+        container.empty();
+        container.style.border = '1px solid var(--background-modifier-border)';
+        container.style.borderRadius = '6px';
+        container.style.padding = '6px';
+        container.style.margin = '4px 0';
+
+        const header = container.createDiv({ attr: { style: 'display: flex; align-items: center; gap: 6px; margin-bottom: 4px;' } });
+        const title = header.createEl('a', { text: name || getFileName(url), href: url, cls: 'external-link' });
+        title.style.flex = '1';
+        this.renderBadge(title, url);
+
+        const body = container.createDiv();
+        if (!type || this.host.settings.previewMaxSize <= 0) return;
+
+        this.getResource(url).then(resource => {
+            const limit = this.host.settings.previewMaxSize * 1024 * 1024;
+            // 服务器不支持 Range 请求时文本文件也会被完整下载，同样受大小限制；无法获取大小时同样需点击后才下载
+            if (!resource || resource.size > limit) {
+                const text = resource ? `文件较大 (${formatSize(resource.size)})，点击加载预览` : '无法获取文件大小，点击加载预览';
+                const button = body.createEl('button', { text });
+                button.onclick = () => {
+                    body.empty();
+                    this.renderBody(body, url, type);
+                };
+                return;
+            }
+            this.renderBody(body, url, type);
+        }, error => this.showError(body, error));
+    }
+
+    // 在链接后显示文件类型图标和文件大小
+    renderBadge(linkEl: HTMLElement, url: string) {
+        if (linkEl.dataset.webdavBadge) return;
+        linkEl.dataset.webdavBadge = 'true';
+        linkEl.after(this.createBadge(url));
+    }
+
+    createBadge(url: string): HTMLElement {
+        const badge = createSpan({ attr: { style: 'margin-left: 4px; font-size: 0.8em; color: var(--text-muted); white-space: nowrap;' } });
+        const icon = badge.createSpan({ attr: { style: 'display: inline-flex; vertical-align: middle; margin-right: 2px;' } });
+        setIcon(icon, FILE_TYPE_ICONS[getFileType(getFileName(url))]);
+        const size = badge.createSpan();
+        this.getResource(url).then(resource => {
+            if (resource && !resource.isCollection) size.setText(formatSize(resource.size));
+        }, () => size.setText('⚠️'));
+        return badge;
+    }
+
+    // 卸载插件时释放 blob URL
+    clear() {
+        this.downloads.forEach(pending => pending.then(blobUrl => URL.revokeObjectURL(blobUrl), () => undefined));
+        this.downloads.clear();
+        this.blobs.forEach(blob => URL.revokeObjectURL(blob.blobUrl));
+        this.blobs.clear();
+        this.resources.clear();
+    }
+
+    private async renderBody(body: HTMLElement, url: string, type: PreviewType) {
+        body.createDiv({ text: '加载中…', attr: { style: 'color: var(--text-muted);' } });
+        try {
+            if (type === 'text') {
+                const response = await this.getClient(url).request('GET', url, { Range: `bytes=0-${TEXT_PREVIEW_LIMIT - 1}` });
+                const data = response.arrayBuffer;
+                // 206 表示只返回了请求的范围，Content-Range 中带有文件总大小
+                const total = parseInt((response.headers['content-range'] || '').split('/')[1], 10) || data.byteLength;
+                let text = new TextDecoder().decode(data.slice(0, TEXT_PREVIEW_LIMIT));
+                if (total > TEXT_PREVIEW_LIMIT) text += `\n… (仅显示前 ${formatSize(TEXT_PREVIEW_LIMIT)})`;
+                body.empty();
+                const pre = body.createEl('pre', { attr: { style: 'max-height: 400px; overflow: auto; margin: 0;' } });
+                pre.createEl('code', { text, cls: `language-${getExtension(url).slice(1)}` });
+                return;
+            }
+
+            const blobUrl = await this.getBlobUrl(url);
+            body.empty();
+            if (type === 'pdf') {
+                body.createEl('iframe', { attr: { src: blobUrl, style: 'width: 100%; height: 600px; border: none;' } });
+            } else if (type === 'audio') {
+                body.createEl('audio', { attr: { src: blobUrl, controls: '', style: 'width: 100%;' } });
+            } else {
+                body.createEl('video', { attr: { src: blobUrl, controls: '', style: 'max-width: 100%;' } });
+            }
+        } catch (error) {
+            this.showError(body, error);
+        }
+    }
+
+    private showError(body: HTMLElement, error: Error) {
+        console.error('[WebDAV Uploader] Failed to load attachment preview:', error);
+        body.empty();
+        body.createDiv({ text: `无法加载预览: ${error.message}`, attr: { style: 'color: var(--text-error);' } });
+    }
+
+    private getClient(url: string): WebDAVClient {
+        const client = this.host.getClientForUrl(url);
+        if (!client) throw new Error('No WebDAV server matches this URL');
+        return client;
+    }
+
+    private getResource(url: string): Promise<WebDAVResource | null> {
+        let pending = this.resources.get(url);
+        if (!pending) {
+            pending = (async () => {
+                const client = this.getClient(url);
+                const remotePath = client.toRemotePath(url);
+                return remotePath === null ? null : client.stat(remotePath);
+            })();
+            this.resources.set(url, pending);
+            // 失败时不缓存，下次渲染重新请求
+            pending.catch(() => this.resources.delete(url));
+        }
+        return pending;
+    }
+
+    private getBlobUrl(url: string): Promise<string> {
+        const blob = this.blobs.get(url);
+        if (blob) {
+            // Map 按插入顺序遍历，重新插入表示最近使用
+            this.blobs.delete(url);
+            this.blobs.set(url, blob);
+            return Promise.resolve(blob.blobUrl);
+        }
+
+        let pending = this.downloads.get(url);
+        if (!pending) {
+            pending = (async () => {
+                const response = await this.getClient(url).get(url);
+                const data = new Blob([response.arrayBuffer], { type: getMimeType(getFileName(url), response.headers['content-type']) });
+                const blobUrl = URL.createObjectURL(data);
+                this.blobs.set(url, { blobUrl, size: data.size });
+                this.evictBlobs();
+                return blobUrl;
+            })();
+            this.downloads.set(url, pending);
+            // 登记后再移除，即使同步抛出的错误也不会让失败的下载一直留在 downloads 中
+            const done = () => { this.downloads.delete(url); };
+            pending.then(done, done);
+        }
+        return pending;
+    }
+
+    // 超出上限时释放最久未使用的 blob URL，仍在页面上播放或显示的跳过
+    private evictBlobs() {
+        let total = 0;
+        this.blobs.forEach(blob => total += blob.size);
+        const entries = Array.from(this.blobs.entries());
+        for (const [url, blob] of entries.slice(0, -1)) {
+            if (total <= BLOB_MEMORY_LIMIT) break;
+            if (document.querySelector(`[src="${blob.blobUrl}"]`)) continue;
+            URL.revokeObjectURL(blob.blobUrl);
+            this.blobs.delete(url);
+            total -= blob.size;
+        }
+    }
+}
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import { WebDAVClient, WebDAVError, parseNextcloudUrl } from './webdav-client';
+import { isNetworkError } from './connectivity';
+
+export type ChunkedUploadMode = 'off' | 'auto' | 'nextcloud' | 'content-range';
+
+// 分块上传的进度，随上传队列持久化，用于中断后续传
+export interface ChunkedUploadState {
+    protocol: 'nextcloud' | 'content-range';
+    chunkSize: number;
+    uploadedBytes: number; // 服务器已确认接收的字节数
+    transferId: string;    // Nextcloud 上传临时目录名，或 Content-Range 临时文件的标识
+}
+
+export interface ChunkedUploadOptions {
+    localPath: string;
+    remotePath: string;
+    size: number;
+    state: ChunkedUploadState;
+    onProgress: (state: ChunkedUploadState) => Promise<void>;
+    isCancelled: () => boolean;
+}
+
+// 从 Nextcloud 的 WebDAV 地址推导分块上传目录，例如
+// https://cloud.example.com/remote.php/dav/files/alice -> https://cloud.example.com/remote.php/dav/uploads/alice
+export function getNextcloudUploadsUrl(webdavUrl: string): string | null {
+    const location = parseNextcloudUrl(webdavUrl);
+    if (!location || !location.user) return null;
+    return `${location.origin}${encodeURI(location.basePath)}/remote.php/dav/uploads/${encodeURIComponent(location.user)}`;
+}
+
+// 根据设置决定实际使用的分块协议，返回 null 表示不分块
+export function resolveChunkedProtocol(mode: ChunkedUploadMode, webdavUrl: string): ChunkedUploadState['protocol'] | null {
+    if (mode === 'off') return null;
+    // 并非所有服务器都支持 Content-Range 写入，自动模式只对可识别的 Nextcloud 地址启用分块
+    if (mode === 'auto') return getNextcloudUploadsUrl(webdavUrl) ? 'nextcloud' : null;
+    return mode;
+}
+
+// 分块上传大文件，直接从磁盘按块读取，不会把整个文件载入内存
+// 返回 false 表示上传被取消
+export async function uploadChunked(client: WebDAVClient, webdavUrl: string, options: ChunkedUploadOptions): Promise<boolean> {
+    const handle = await fs.promises.open(options.localPath, 'r');
+    try {
+        if (options.state.protocol === 'nextcloud') {
+            const uploadsUrl = getNextcloudUploadsUrl(webdavUrl);
+            if (!uploadsUrl) throw new Error('WebDAV 地址不是 Nextcloud 格式，无法使用 Nextcloud 分块上传');
+            return await uploadNextcloud(client, uploadsUrl, handle, options);
+        }
+        return await uploadContentRange(client, handle, options);
+    } finally {
+        await handle.close();
+    }
+}
+
+// Nextcloud 分块上传 v2：MKCOL 临时目录 -> 逐块 PUT -> MOVE .file 到目标路径
+async function uploadNextcloud(client: WebDAVClient, uploadsUrl: string, handle: fs.promises.FileHandle, options: ChunkedUploadOptions): Promise<boolean> {
+    const { state, size } = options;
+    const headers = {
+        'Destination': client.getUrl(options.remotePath),
+        'OC-Total-Length': String(size)
+    };
+
+    if (!state.transferId) {
+        state.transferId = createTransferId();
+        state.uploadedBytes = 0;
+    }
+    const dirUrl = `${uploadsUrl}/${encodeURIComponent(state.transferId)}`;
+
+    // 以服务器上已存在的连续分块为准，从最后一个确认的分块之后继续
+    let confirmedChunks = 0;
+    try {
+        const resources = await client.propfind(dirUrl, '1');
+        const names = new Set(resources.filter(r => !r.isCollection).map(r => r.name));
+        while (names.has(chunkName(confirmedChunks + 1))) confirmedChunks++;
+    } catch (error) {
+        if (!(error instanceof WebDAVError && error.status === 404)) throw error;
+        await client.request('MKCOL', dirUrl, headers);
+    }
+    state.uploadedBytes = Math.min(confirmedChunks * state.chunkSize, size);
+
+    for (let offset = state.uploadedBytes; offset < size; offset += state.chunkSize) {
+        if (options.isCancelled()) {
+            await client.request('DELETE', dirUrl).catch(() => undefined);
+            return false;
+        }
+
+        const data = await readChunk(handle, offset, Math.min(state.chunkSize, size - offset));
+        await client.request('PUT', `${dirUrl}/${chunkName(offset / state.chunkSize + 1)}`, headers, data);
+        state.uploadedBytes = offset + data.byteLength;
+        await options.onProgress(state);
+    }
+
+    await client.request('MOVE', `${dirUrl}/.file`, { ...headers, 'Overwrite': 'T' });
+    return true;
+}
+
+// 服务器不支持 Content-Range 写入，属于永久性错误，重试没有意义，调用方应改用普通 PUT
+export class ChunkedUploadUnsupportedError extends Error {
+    constructor() {
+        super('服务器不支持 Content-Range 分块上传');
+        this.name = 'ChunkedUploadUnsupportedError';
+    }
+}
+
+// Content-Range 方式先写入的临时文件，全部写完后再 MOVE 到目标路径
+export function getTemporaryPath(remotePath: string, transferId: string): string {
+    return `${remotePath}.${transferId}.uploading`;
+}
+
+// 通用方式：对临时文件逐块 PUT 并附带 Content-Range（Apache mod_dav 等支持），完成后 MOVE 到目标路径，
+// 这样上传失败或取消时不会在目标路径留下不完整的文件
+async function uploadContentRange(client: WebDAVClient, handle: fs.promises.FileHandle, options: ChunkedUploadOptions): Promise<boolean> {
+    const { state, size } = options;
+
+    if (!state.transferId) {
+        state.transferId = createTransferId();
+        state.uploadedBytes = 0;
+    }
+    const tempPath = getTemporaryPath(options.remotePath, state.transferId);
+    const discard = async () => {
+        await client.request('DELETE', tempPath).catch(() => undefined);
+        state.transferId = '';
+        state.uploadedBytes = 0;
+    };
+
+    // 续传时以服务器上临时文件的实际大小为准
+    if (state.uploadedBytes > 0) {
+        const stat = await client.stat(tempPath);
+        state.uploadedBytes = Math.min(state.uploadedBytes, stat ? stat.size : 0);
+    }
+
+    try {
+        let verified = false;
+        for (let offset = state.uploadedBytes; offset < size; offset += state.chunkSize) {
+            if (options.isCancelled()) {
+                await discard();
+                return false;
+            }
+
+            const data = await readChunk(handle, offset, Math.min(state.chunkSize, size - offset));
+            // 第一块使用普通 PUT，确保覆盖残留的临时文件
+            const headers: Record<string, string> = { 'Content-Type': 'application/octet-stream' };
+            if (offset > 0) {
+                headers['Content-Range'] = `bytes ${offset}-${offset + data.byteLength - 1}/${size}`;
+            }
+            await client.request('PUT', tempPath, headers, data);
+            state.uploadedBytes = offset + data.byteLength;
+
+            // 不支持 Content-Range 的服务器会用每一块覆盖整个文件，写入第一个分段后立即检查，避免白传剩余分块
+            if (offset > 0 && !verified) {
+                const stat = await client.stat(tempPath);
+                if (!stat || stat.size !== state.uploadedBytes) throw new ChunkedUploadUnsupportedError();
+                verified = true;
+            }
+            await options.onProgress(state);
+        }
+
+        const stat = await client.stat(tempPath);
+        if (!stat || stat.size !== size) throw new ChunkedUploadUnsupportedError();
+        await client.move(tempPath, options.remotePath, true);
+        return true;
+    } catch (error) {
+        // 网络中断时保留临时文件以便续传，其他错误清理掉临时文件
+        if (!isNetworkError(error)) await discard();
+        throw error;
+    }
+}
+
+function createTransferId(): string {
+    return `webdav-uploader-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Nextcloud 要求分块名为 1-10000 的数字
+function chunkName(index: number): string {
+    return ('00000' + index).slice(-5);
+}
+
+async function readChunk(handle: fs.promises.FileHandle, offset: number, length: number): Promise<ArrayBuffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, offset);
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + bytesRead);
+}
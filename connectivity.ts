@@ -0,0 +1,118 @@
+import { Events } from 'obsidian';
+import { WebDAVClient, WebDAVError } from './webdav-client';
+
+interface ConnectivityHost {
+    clients: Map<string, WebDAVClient>;
+}
+
+// 每隔一段时间用 PROPFIND 检查根目录，刷新各服务器能否连接
+const CHECK_INTERVAL = 30 * 1000;
+// 状态超过这个时间没有确认视为过期，定期检查和上传前探测只针对过期或未知的服务器
+const STALE_AFTER = 2 * CHECK_INTERVAL;
+// 单次探测的最长等待时间，超时未响应时保持原有状态
+const PROBE_TIMEOUT = 5 * 1000;
+
+// 请求没有收到任何响应（而不是服务器返回错误状态）时视为离线
+export function isNetworkError(error: unknown): boolean {
+    return error instanceof WebDAVError && error.status === 0;
+}
+
+// 记录每个服务器是否可以连接；状态变化时触发 'change' 事件
+export class ConnectivityMonitor extends Events {
+    private host: ConnectivityHost;
+    private offline = new Set<string>(); // 无法连接的服务器 id
+    private checkedAt = new Map<string, number>(); // 服务器 id -> 最近一次确认状态的时间
+    private timer: number | null = null;
+    private checking = false;
+
+    constructor(host: ConnectivityHost) {
+        super();
+        this.host = host;
+    }
+
+    isOnline(serverId = ''): boolean {
+        return !this.offline.has(serverId);
+    }
+
+    // 状态是否在有效期内确认过；未知或过期时上传前需要先探测
+    isFresh(serverId = ''): boolean {
+        const checkedAt = this.checkedAt.get(serverId);
+        return checkedAt !== undefined && Date.now() - checkedAt < STALE_AFTER;
+    }
+
+    hasOffline(): boolean {
+        return this.offline.size > 0;
+    }
+
+    start() {
+        this.stop();
+        this.timer = window.setInterval(() => this.check(), CHECK_INTERVAL);
+        this.check();
+    }
+
+    stop() {
+        if (this.timer !== null) window.clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    // 请求因网络错误失败时调用
+    reportOffline(serverId = '') {
+        this.setOnline(serverId, false);
+    }
+
+    // 请求成功时调用，顺带刷新状态的有效期
+    reportOnline(serverId = '') {
+        this.setOnline(serverId, true);
+    }
+
+    // 立即检查服务器能否连接，无法连接时标记为离线；超时未响应按在线处理，交给上传队列重试
+    async probe(serverId = ''): Promise<boolean> {
+        const online = await this.reach(serverId);
+        if (online === null) return this.isOnline(serverId);
+        this.setOnline(serverId, online);
+        return online;
+    }
+
+    // 检查状态过期的服务器（force 时检查全部服务器），返回仍然离线的数量
+    async check(force = false): Promise<number> {
+        if (this.checking) return this.offline.size;
+        this.checking = true;
+        try {
+            const serverIds = new Set([...Array.from(this.host.clients.keys()), ...Array.from(this.offline)]);
+            for (const serverId of Array.from(serverIds)) {
+                if (!force && this.isFresh(serverId)) continue;
+                await this.probe(serverId);
+            }
+        } finally {
+            this.checking = false;
+        }
+        return this.offline.size;
+    }
+
+    private setOnline(serverId: string, online: boolean) {
+        this.checkedAt.set(serverId, Date.now());
+        if (online === this.isOnline(serverId)) return;
+        if (online) {
+            this.offline.delete(serverId);
+        } else {
+            this.offline.add(serverId);
+        }
+        this.trigger('change');
+    }
+
+    // 返回服务器能否连接，超时未响应时返回 null
+    private async reach(serverId: string): Promise<boolean | null> {
+        const client = this.host.clients.get(serverId);
+        // 服务器已被删除，不再阻止其排队中的条目
+        if (!client) return true;
+        // 服务器返回了错误状态，说明网络可以连通，具体错误交给上传时处理
+        const request = client.stat('/').then(() => true, error => !isNetworkError(error));
+        let timer = 0;
+        const timeout = new Promise<null>(resolve => {
+            timer = window.setTimeout(() => resolve(null), PROBE_TIMEOUT);
+        });
+        const online = await Promise.race([request, timeout]);
+        window.clearTimeout(timer);
+        return online;
+    }
+}
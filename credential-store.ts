@@ -0,0 +1,343 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import * as crypto from 'crypto';
+
+// keychain: 系统钥匙串 (Electron safeStorage)；passphrase: 主密码加密；plain: 明文保存在 data.json 中
+export type CredentialStorage = 'keychain' | 'passphrase' | 'plain';
+
+export const CREDENTIAL_STORAGE_LABELS: Record<CredentialStorage, string> = {
+    keychain: '系统钥匙串',
+    passphrase: '主密码加密',
+    plain: '明文'
+};
+
+interface CredentialSettings {
+    password: string;
+    servers: { id: string; password: string }[];
+    sharePassword: string;
+    credentialStorage: CredentialStorage;
+    encryptedPasswords: Record<string, string>; // 服务器 id -> 密文，默认服务器的 id 为空字符串，公开链接密码为 SHARE_PASSWORD_ID
+    passphraseSalt: string;
+}
+
+interface CredentialStoreHost {
+    settings: CredentialSettings;
+}
+
+interface SafeStorage {
+    isEncryptionAvailable(): boolean;
+    encryptString(plainText: string): Buffer;
+    decryptString(encrypted: Buffer): string;
+}
+
+const SHARE_PASSWORD_ID = '#share';
+
+const PBKDF2_ITERATIONS = 200000;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// 保存设置时把密码换成密文，读取设置后再解密到内存中；内存中的设置始终保存明文密码
+export class CredentialStore {
+    host: CredentialStoreHost;
+    private safeStorage = getSafeStorage();
+    private key: Buffer | null = null; // 由主密码派生的密钥，只保存在内存中
+    private cache = new Map<string, { password: string; encrypted: string }>(); // 密码未变化时沿用原密文，避免每次保存都改动 data.json
+    private undecryptable = new Set<string>(); // 本机无法解密的服务器 id
+
+    constructor(host: CredentialStoreHost) {
+        this.host = host;
+    }
+
+    isKeychainAvailable(): boolean {
+        return this.safeStorage !== null;
+    }
+
+    // 当前无法加密新密码：钥匙串不可用，或主密码尚未输入
+    isLocked(): boolean {
+        const mode = this.host.settings.credentialStorage;
+        if (mode === 'keychain') return !this.safeStorage;
+        if (mode === 'passphrase') return !this.key;
+        return false;
+    }
+
+    // 主密码模式下尚未派生密钥：既无法解密已保存的密码，也无法加密新输入的密码
+    needsUnlock(): boolean {
+        return this.host.settings.credentialStorage === 'passphrase' && !this.key;
+    }
+
+    // 是否已有加密保存的密码；没有时解锁相当于设置新的主密码
+    hasEncryptedPasswords(): boolean {
+        return Object.keys(this.host.settings.encryptedPasswords).length > 0;
+    }
+
+    // 读取设置后调用。返回 true 表示设置中还有旧版本留下的明文密码，需要立即保存一次以加密
+    load(): boolean {
+        const { settings } = this.host;
+        // 本机不支持钥匙串且没有已加密的密码时（例如新安装或旧版本升级），继续使用明文
+        if (settings.credentialStorage === 'keychain' && !this.safeStorage && Object.keys(settings.encryptedPasswords).length === 0) {
+            settings.credentialStorage = 'plain';
+        }
+        if (settings.credentialStorage === 'plain') return false;
+
+        let hasPlainText = false;
+        for (const { id, target } of getEntries(settings)) {
+            if (target.password) {
+                hasPlainText = true;
+            } else if (settings.encryptedPasswords[id] && !this.isLocked()) {
+                this.restore(id, target);
+            }
+        }
+        return hasPlainText;
+    }
+
+    // 主密码错误时返回 false，已保存的密码保持锁定
+    unlock(passphrase: string): boolean {
+        const { settings } = this.host;
+        if (!this.hasEncryptedPasswords() && !settings.passphraseSalt) {
+            settings.passphraseSalt = crypto.randomBytes(16).toString('base64');
+        }
+        const key = deriveKey(passphrase, settings.passphraseSalt);
+        const passwords = new Map<string, string>();
+        try {
+            for (const id of Object.keys(settings.encryptedPasswords)) {
+                passwords.set(id, decryptWithKey(key, settings.encryptedPasswords[id]));
+            }
+        } catch (e) {
+            return false;
+        }
+
+        this.key = key;
+        for (const { id, target } of getEntries(settings)) {
+            const password = passwords.get(id);
+            if (password === undefined || target.password) continue;
+            target.password = password;
+            this.cache.set(id, { password, encrypted: settings.encryptedPasswords[id] });
+        }
+        return true;
+    }
+
+    // 切换存储方式，之后保存设置时按新方式重新加密内存中的密码；本机无法解密的密码会被丢弃
+    setMode(mode: CredentialStorage, passphrase?: string) {
+        const { settings } = this.host;
+        settings.credentialStorage = mode;
+        settings.encryptedPasswords = {};
+        this.cache.clear();
+        this.undecryptable.clear();
+
+        if (mode === 'passphrase' && passphrase) {
+            settings.passphraseSalt = crypto.randomBytes(16).toString('base64');
+            this.key = deriveKey(passphrase, settings.passphraseSalt);
+        } else {
+            settings.passphraseSalt = '';
+            this.key = null;
+        }
+    }
+
+    // 生成写入 data.json 的设置副本：密码替换为空，密文写入 encryptedPasswords；
+    // 暂时无法加密时保留原有密文，等解锁后再更新。内存中的设置保持不变
+    seal<T extends CredentialSettings>(settings: T): T {
+        if (settings.credentialStorage === 'plain') {
+            return { ...settings, encryptedPasswords: {} };
+        }
+
+        const locked = this.isLocked();
+        const encryptedPasswords: Record<string, string> = {};
+        for (const { id, target } of getEntries(settings)) {
+            const previous = settings.encryptedPasswords[id];
+            if (target.password && !locked) {
+                encryptedPasswords[id] = this.encrypt(id, target.password);
+                this.undecryptable.delete(id);
+            } else if (previous && (locked || this.undecryptable.has(id))) {
+                encryptedPasswords[id] = previous;
+            }
+        }
+
+        return {
+            ...settings,
+            password: '',
+            servers: settings.servers.map(server => ({ ...server, password: '' })),
+            sharePassword: '',
+            encryptedPasswords
+        };
+    }
+
+    // 设置页中显示的凭据保存位置说明
+    describe(): string {
+        const { settings } = this.host;
+        let text: string;
+        switch (settings.credentialStorage) {
+            case 'keychain':
+                text = this.safeStorage
+                    ? '🔒 密码使用系统钥匙串 (Electron safeStorage) 加密，data.json 中只保存密文，只有本机能解密；在其他设备上需要重新输入密码。'
+                    : '⚠️ 本机无法使用系统钥匙串，已保存的密码无法解密，新输入的密码也不会被保存。请改用主密码加密。';
+                break;
+            case 'passphrase':
+                text = this.key
+                    ? '🔑 密码使用主密码加密后保存在 data.json 中，每次启动 Obsidian 时需要输入主密码解锁。主密码本身不会被保存。'
+                    : this.hasEncryptedPasswords()
+                        ? '🔒 凭据尚未解锁，请输入主密码。'
+                        : '🔒 尚未输入主密码，新输入的密码在设置主密码之前不会被保存。';
+                break;
+            default:
+                text = '⚠️ 密码以明文保存在插件目录的 data.json 中，会随仓库同步和备份一起传播。';
+        }
+        if (this.undecryptable.size > 0) {
+            text += ` ${this.undecryptable.size} 个服务器的密码无法在本机解密，请重新输入。`;
+        }
+        return text;
+    }
+
+    hasUndecryptable(): boolean {
+        return this.undecryptable.size > 0 || (this.host.settings.credentialStorage === 'keychain' && !this.safeStorage);
+    }
+
+    private restore(id: string, target: { password: string }) {
+        const encrypted = this.host.settings.encryptedPasswords[id];
+        try {
+            target.password = this.decrypt(encrypted);
+            this.cache.set(id, { password: target.password, encrypted });
+        } catch (error) {
+            console.error('[WebDAV Uploader] Failed to decrypt password:', id || 'default', error);
+            this.undecryptable.add(id);
+        }
+    }
+
+    private encrypt(id: string, password: string): string {
+        const cached = this.cache.get(id);
+        if (cached && cached.password === password) return cached.encrypted;
+
+        const encrypted = this.host.settings.credentialStorage === 'keychain'
+            ? this.safeStorage!.encryptString(password).toString('base64')
+            : encryptWithKey(this.key!, password);
+        this.cache.set(id, { password, encrypted });
+        return encrypted;
+    }
+
+    private decrypt(encrypted: string): string {
+        if (this.host.settings.credentialStorage === 'keychain') {
+            return this.safeStorage!.decryptString(Buffer.from(encrypted, 'base64'));
+        }
+        return decryptWithKey(this.key!, encrypted);
+    }
+}
+
+// 输入主密码：unlock 解锁已保存的密码，set 设置新的主密码（需输入两次）
+export class PassphraseModal extends Modal {
+    mode: 'unlock' | 'set';
+    onSubmit: (passphrase: string) => boolean;
+    onCancel: () => void;
+    passphrase = '';
+    confirmation = '';
+    isHandled = false;
+
+    constructor(app: App, mode: 'unlock' | 'set', onSubmit: (passphrase: string) => boolean, onCancel: () => void = () => {}) {
+        super(app);
+        this.mode = mode;
+        this.onSubmit = onSubmit;
+        this.onCancel = onCancel;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: this.mode === 'unlock' ? '解锁 WebDAV 凭据' : '设置主密码' });
+        contentEl.createEl('p', {
+            text: this.mode === 'unlock'
+                ? 'WebDAV 密码已使用主密码加密，输入主密码后才能连接服务器。'
+                : '主密码用于加密所有服务器的 WebDAV 密码，不会被保存。忘记主密码后需要重新输入各服务器的密码。',
+            attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+        });
+
+        this.addPasswordField('主密码', value => this.passphrase = value, true);
+        if (this.mode === 'set') {
+            this.addPasswordField('确认主密码', value => this.confirmation = value, false);
+        }
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText(this.mode === 'unlock' ? '解锁' : '确定')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    private addPasswordField(name: string, onChange: (value: string) => void, focus: boolean) {
+        new Setting(this.contentEl)
+            .setName(name)
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text.onChange(onChange);
+                text.inputEl.addEventListener('keypress', (e) => {
+                    if (e.key === 'Enter') this.submit();
+                });
+                if (focus) text.inputEl.focus();
+            });
+    }
+
+    submit() {
+        if (!this.passphrase) {
+            new Notice('主密码不能为空');
+            return;
+        }
+        if (this.mode === 'set' && this.passphrase !== this.confirmation) {
+            new Notice('两次输入的主密码不一致');
+            return;
+        }
+        if (!this.onSubmit(this.passphrase)) {
+            new Notice('❌ 主密码错误');
+            return;
+        }
+        this.isHandled = true;
+        this.close();
+    }
+
+    onClose() {
+        if (!this.isHandled) this.onCancel();
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// 默认服务器的密码保存在设置的顶层，其他服务器保存在各自的配置中；公开链接的密码同样需要加密
+function getEntries(settings: CredentialSettings): { id: string; target: { password: string } }[] {
+    const shareTarget = {
+        get password() { return settings.sharePassword; },
+        set password(value: string) { settings.sharePassword = value; }
+    };
+    return [
+        { id: '', target: settings },
+        ...settings.servers.map(server => ({ id: server.id, target: server })),
+        { id: SHARE_PASSWORD_ID, target: shareTarget }
+    ];
+}
+
+// 渲染进程中 safeStorage 只能通过 remote 模块访问，旧版本 Electron 不提供时返回 null
+function getSafeStorage(): SafeStorage | null {
+    try {
+        const electron = require('electron');
+        const safeStorage: SafeStorage | undefined = electron.remote?.safeStorage ?? electron.safeStorage;
+        return safeStorage && safeStorage.isEncryptionAvailable() ? safeStorage : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+function deriveKey(passphrase: string, salt: string): Buffer {
+    return crypto.pbkdf2Sync(passphrase, Buffer.from(salt, 'base64'), PBKDF2_ITERATIONS, 32, 'sha256');
+}
+
+// 密文格式：base64(IV + 认证标签 + 数据)
+function encryptWithKey(key: Buffer, plainText: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), data]).toString('base64');
+}
+
+// 密钥错误时认证失败并抛出异常
+function decryptWithKey(key: Buffer, encrypted: string): string {
+    const buffer = Buffer.from(encrypted, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, buffer.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(buffer.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(buffer.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+}
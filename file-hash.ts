@@ -0,0 +1,56 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { WebDAVResource } from './webdav-client';
+
+export interface FileHashes {
+    sha256: string;
+    sha1: string;
+    md5: string;
+    size: number;
+}
+
+// 一次读取同时计算多种哈希，以便与不同服务器提供的校验值比较
+// 有本地路径时流式读取磁盘文件，避免大文件整体载入内存
+export async function computeFileHashes(localPath: string, data?: ArrayBuffer): Promise<FileHashes> {
+    const hashes = ['sha256', 'sha1', 'md5'].map(algorithm => crypto.createHash(algorithm));
+    let size = 0;
+
+    const update = (chunk: Buffer) => {
+        size += chunk.length;
+        hashes.forEach(hash => hash.update(chunk));
+    };
+
+    if (data) {
+        update(Buffer.from(data));
+    } else {
+        await new Promise<void>((resolve, reject) => {
+            fs.createReadStream(localPath)
+                .on('data', (chunk: Buffer) => update(chunk))
+                .on('end', () => resolve())
+                .on('error', reject);
+        });
+    }
+
+    const [sha256, sha1, md5] = hashes.map(hash => hash.digest('hex'));
+    return { sha256, sha1, md5, size };
+}
+
+// 与 PROPFIND 返回的校验信息比较：true 相同，false 不同，null 无法判断
+export function compareWithRemote(hashes: FileHashes, remote: WebDAVResource): boolean | null {
+    if (remote.size !== hashes.size) return false;
+
+    const checksums: Record<string, string> = {};
+    const regex = /(SHA256|SHA1|MD5):([0-9a-f]+)/gi;
+    let match;
+    while ((match = regex.exec(remote.checksums)) !== null) {
+        checksums[match[1].toUpperCase()] = match[2].toLowerCase();
+    }
+    if (checksums.SHA256) return checksums.SHA256 === hashes.sha256;
+    if (checksums.SHA1) return checksums.SHA1 === hashes.sha1;
+    if (checksums.MD5) return checksums.MD5 === hashes.md5;
+
+    // 部分服务器（如基于对象存储的 WebDAV）使用内容 MD5 作为 ETag；ETag 不一致并不能说明内容不同
+    if (/^[0-9a-f]{32}$/i.test(remote.etag) && remote.etag.toLowerCase() === hashes.md5) return true;
+
+    return null;
+}
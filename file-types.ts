@@ -0,0 +1,60 @@
+import * as path from 'path';
+
+// 按扩展名划分的文件类型，用于文件夹模板的 {fileType}、链接是否使用嵌入语法等
+const FILE_TYPES: Record<string, string[]> = {
+    image: ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.bmp', '.ico', '.heic', '.avif'],
+    video: ['.mp4', '.mov', '.mkv', '.webm', '.avi', '.m4v'],
+    audio: ['.mp3', '.wav', '.m4a', '.flac', '.ogg', '.aac'],
+    document: ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.txt', '.md', '.csv'],
+    archive: ['.zip', '.rar', '.7z', '.tar', '.gz']
+};
+
+// 服务器常返回 application/octet-stream，显示或播放时按扩展名给出正确的类型；同一类型的首个扩展名为默认扩展名
+const MIME_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.bmp': 'image/bmp',
+    '.ico': 'image/x-icon',
+    '.heic': 'image/heic',
+    '.avif': 'image/avif',
+    '.pdf': 'application/pdf',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.m4a': 'audio/mp4',
+    '.flac': 'audio/flac',
+    '.ogg': 'audio/ogg',
+    '.aac': 'audio/aac',
+    '.mp4': 'video/mp4',
+    '.m4v': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.webm': 'video/webm',
+    '.mkv': 'video/x-matroska',
+    '.avi': 'video/x-msvideo'
+};
+
+// 返回 image/video/audio/document/archive/other
+export function getFileType(fileName: string): string {
+    const ext = path.posix.extname(fileName).toLowerCase();
+    for (const type of Object.keys(FILE_TYPES)) {
+        if (FILE_TYPES[type].includes(ext)) return type;
+    }
+    return 'other';
+}
+
+export function isImageFile(fileName: string): boolean {
+    return getFileType(fileName) === 'image';
+}
+
+export function getMimeType(fileName: string, fallback = 'application/octet-stream'): string {
+    return MIME_TYPES[path.posix.extname(fileName).toLowerCase()] || fallback;
+}
+
+// MIME 类型对应的扩展名（不含点），未知类型返回空字符串
+export function getExtensionForMime(mime: string): string {
+    const ext = Object.keys(MIME_TYPES).find(key => MIME_TYPES[key] === mime);
+    return ext ? ext.slice(1) : '';
+}
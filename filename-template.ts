@@ -0,0 +1,58 @@
+import { moment } from 'obsidian';
+import * as crypto from 'crypto';
+import * as path from 'path';
+
+export interface FileNameContext {
+    originalName: string; // 原始文件名（含扩展名）
+    noteName: string;     // 插入链接的笔记名称
+    hash: string;         // 文件内容 SHA-256，未计算时为空
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = '{name}.{ext}';
+
+// 模板是否需要文件内容哈希（计算哈希需要读取整个文件）
+export function templateNeedsHash(template: string): boolean {
+    return /\{hash(:\d+)?\}/.test(template);
+}
+
+// 渲染文件名模板，支持的变量：
+// {name} 原文件名（不含扩展名）  {ext} 扩展名（不含点）  {note} 笔记名
+// {date} / {date:YYYYMMDD} 日期  {time} / {time:HHmmss} 时间  {hash} / {hash:8} 内容哈希前 N 位  {uuid} 随机 UUID
+export function renderFileNameTemplate(template: string, context: FileNameContext): string {
+    const ext = path.extname(context.originalName);
+    const now = moment();
+
+    const rendered = (template || DEFAULT_FILENAME_TEMPLATE).replace(/\{(\w+)(?::([^}]+))?\}/g, (token, name: string, arg: string | undefined) => {
+        switch (name) {
+            case 'name':
+                return path.basename(context.originalName, ext);
+            case 'ext':
+                return ext.slice(1);
+            case 'note':
+                return context.noteName;
+            case 'date':
+                return now.format(arg || 'YYYYMMDD');
+            case 'time':
+                return now.format(arg || 'HHmmss');
+            case 'hash':
+                return context.hash.slice(0, arg ? parseInt(arg, 10) || 8 : 8);
+            case 'uuid':
+                return crypto.randomUUID();
+            default:
+                return token; // 未知变量原样保留
+        }
+    });
+
+    // 没有扩展名时 "{name}.{ext}" 会留下结尾的点
+    const sanitized = sanitizeFileName(rendered.replace(/\.+$/, ''));
+    return sanitized || sanitizeFileName(context.originalName) || 'file';
+}
+
+// 替换 WebDAV 服务器或文件系统常拒绝的字符
+export function sanitizeFileName(name: string): string {
+    return name
+        .replace(/[\\/:*?"<>|#%\u0000-\u001f]/g, '_')
+        .replace(/\s+/g, ' ')
+        .replace(/^[\s.]+|[\s.]+$/g, '')
+        .slice(0, 200);
+}
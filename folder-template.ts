@@ -0,0 +1,53 @@
+import { moment } from 'obsidian';
+import { sanitizeFileName } from './filename-template';
+import { getFileType } from './file-types';
+
+export interface FolderContext {
+    vaultFolder: string;  // 笔记所在文件夹（匹配映射时为相对映射本地路径的部分）
+    noteName: string;
+    fileName: string;     // 上传后的文件名，用于判断 {fileType}
+    frontmatter?: Record<string, unknown>;
+}
+
+export const DEFAULT_FOLDER_TEMPLATE = '{vaultFolder}';
+
+// 渲染文件夹模板，返回不带首尾斜杠的相对路径，支持的变量：
+// {vaultFolder} 笔记文件夹  {noteName} 笔记名  {year} {month} {day} / {date:YYYY-MM} 日期
+// {fileType} 文件类型 (image/video/audio/document/archive/other)  {fm.字段} 笔记 frontmatter 字段
+export function renderFolderTemplate(template: string, context: FolderContext): string {
+    const now = moment();
+
+    const rendered = (template || DEFAULT_FOLDER_TEMPLATE).replace(/\{([\w.-]+)(?::([^}]+))?\}/g, (token, name: string, arg: string | undefined) => {
+        if (name.startsWith('fm.')) {
+            const value = context.frontmatter?.[name.slice(3)];
+            if (value === undefined || value === null) return '';
+            return String(Array.isArray(value) ? value[0] ?? '' : value);
+        }
+
+        switch (name) {
+            case 'vaultFolder':
+                return context.vaultFolder;
+            case 'noteName':
+                return context.noteName;
+            case 'year':
+                return now.format('YYYY');
+            case 'month':
+                return now.format('MM');
+            case 'day':
+                return now.format('DD');
+            case 'date':
+                return now.format(arg || 'YYYY-MM-DD');
+            case 'fileType':
+                return getFileType(context.fileName);
+            default:
+                return token; // 未知变量原样保留
+        }
+    });
+
+    // 逐级清理非法字符，并去掉空的层级（如未设置的 frontmatter 字段）
+    return rendered
+        .split(/[\\/]+/)
+        .map(segment => sanitizeFileName(segment))
+        .filter(segment => segment)
+        .join('/');
+}
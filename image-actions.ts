@@ -0,0 +1,277 @@
+import { App, MarkdownView, Menu, Modal, Notice, TFile } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient } from './webdav-client';
+import { ImageCache } from './image-cache';
+import { ImageLoader } from './image-loader';
+import { findWebDAVLinks } from './webdav-links';
+import { getFileType } from './file-types';
+import { computeFileHashes } from './file-hash';
+import { AttachmentDownloader } from './reverse-migration';
+import { getFileName } from './attachment-preview';
+import { loadImage } from './image-processing';
+
+interface ImageActionsHost {
+    app: App;
+    settings: {
+        downloadFolder: string;
+    };
+    imageCache: ImageCache;
+    imageLoader: ImageLoader;
+    getClientForUrl(url: string): WebDAVClient | null;
+    replaceInNote(notePath: string, search: string, replacement: string): Promise<boolean>;
+    recordHash(sha256: string, url: string): Promise<void>;
+    forgetRemoteFile(url: string): Promise<void>;
+}
+
+// 笔记中已渲染的 WebDAV 图片（ImageLoader 记录了原地址）：点击打开灯箱，右键显示操作菜单
+export class ImageActions {
+    host: ImageActionsHost;
+
+    constructor(host: ImageActionsHost) {
+        this.host = host;
+    }
+
+    handleClick(evt: MouseEvent) {
+        const img = getWebDAVImage(evt);
+        if (!img) return;
+        evt.preventDefault();
+        evt.stopPropagation();
+
+        const url = img.dataset.webdavUrl!;
+        this.getGallery(img, url).catch(error => {
+            // 读取笔记失败时只查看这一张
+            console.error('[WebDAV Uploader] Failed to collect gallery images:', url, error);
+            return [url];
+        }).then(urls => {
+            new ImageLightboxModal(this.host.app, this.host.imageCache, urls, Math.max(0, urls.indexOf(url))).open();
+        });
+    }
+
+    handleContextMenu(evt: MouseEvent) {
+        const img = getWebDAVImage(evt);
+        if (!img) return;
+        evt.preventDefault();
+        evt.stopPropagation();
+
+        const url = img.dataset.webdavUrl!;
+        const menu = new Menu();
+        menu.addItem(item => item.setTitle('在浏览器中打开').setIcon('globe').onClick(() => window.open(url)));
+        menu.addItem(item => item.setTitle('复制链接').setIcon('link').onClick(async () => {
+            await navigator.clipboard.writeText(url);
+            new Notice('已复制图片链接');
+        }));
+        menu.addItem(item => item.setTitle('复制图片').setIcon('copy').onClick(() => this.copyImage(url)));
+        menu.addSeparator();
+        menu.addItem(item => item.setTitle('下载到仓库').setIcon('download').onClick(() => this.download(url, this.getNote(img))));
+        menu.addItem(item => item.setTitle('重新上传替换').setIcon('upload').onClick(() => this.replace(url)));
+        menu.addItem(item => item.setTitle('从服务器删除').setIcon('trash').onClick(() => this.delete(url)));
+        menu.showAtMouseEvent(evt);
+    }
+
+    // 剪贴板只支持 PNG，其他格式先转换
+    async copyImage(url: string) {
+        try {
+            const dataUrl = await this.host.imageCache.load(url);
+            const image = await loadImage(dataUrl);
+            const canvas = document.createElement('canvas');
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+            canvas.getContext('2d')?.drawImage(image, 0, 0);
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+            if (!blob) throw new Error('无法转换图片');
+            await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+            new Notice('已复制图片');
+        } catch (error) {
+            console.error('[WebDAV Uploader] Copy image failed:', url, error);
+            new Notice(`❌ 复制图片失败: ${error.message}`);
+        }
+    }
+
+    // 保存到附件保存文件夹，不改写笔记中的链接
+    async download(url: string, note: TFile | null) {
+        try {
+            const { client, remotePath } = this.resolve(url);
+            const file = await new AttachmentDownloader(this.host).saveToVault(client, remotePath, note?.path || '');
+            new Notice(`已下载到 ${file.path}`);
+        } catch (error) {
+            console.error('[WebDAV Uploader] Download image failed:', url, error);
+            new Notice(`❌ 下载失败: ${error.message}`);
+        }
+    }
+
+    // 选择本地文件覆盖服务器上的同一路径，笔记中的链接保持不变
+    replace(url: string) {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = 'image/*';
+        input.onchange = async () => {
+            const file = input.files?.[0];
+            if (!file) return;
+            try {
+                const { client, remotePath } = this.resolve(url);
+                const data = await file.arrayBuffer();
+                await client.put(remotePath, data, file.type || undefined);
+                const hashes = await computeFileHashes('', data);
+                await this.host.recordHash(hashes.sha256, client.getUrl(remotePath));
+                await this.host.imageCache.forget(url);
+                this.host.imageLoader.reload(url);
+                new Notice(`✅ 已替换 ${path.posix.basename(remotePath)}`);
+            } catch (error) {
+                console.error('[WebDAV Uploader] Replace image failed:', url, error);
+                new Notice(`❌ 替换失败: ${error.message}`);
+            }
+        };
+        input.click();
+    }
+
+    async delete(url: string) {
+        let target: { client: WebDAVClient; remotePath: string };
+        try {
+            target = this.resolve(url);
+        } catch (error) {
+            new Notice(`❌ ${error.message}`);
+            return;
+        }
+        if (!window.confirm(`确定要从服务器删除 ${target.remotePath} 吗？笔记中引用它的链接将无法显示。`)) return;
+
+        try {
+            await target.client.delete(target.remotePath);
+            await this.host.forgetRemoteFile(target.client.getUrl(target.remotePath));
+            await this.host.imageCache.forget(url);
+            new Notice(`已删除 ${target.remotePath}`);
+        } catch (error) {
+            console.error('[WebDAV Uploader] Delete image failed:', url, error);
+            new Notice(`❌ 删除失败: ${error.message}`);
+        }
+    }
+
+    private resolve(url: string): { client: WebDAVClient; remotePath: string } {
+        const client = this.host.getClientForUrl(url);
+        const remotePath = client?.toRemotePath(url);
+        if (!client || remotePath === null || remotePath === undefined) throw new Error('该图片不属于已配置的 WebDAV 服务器');
+        return { client, remotePath };
+    }
+
+    // 图片所在的笔记
+    private getNote(img: HTMLElement): TFile | null {
+        for (const leaf of this.host.app.workspace.getLeavesOfType('markdown')) {
+            const view = leaf.view as MarkdownView;
+            if (view.containerEl.contains(img)) return view.file;
+        }
+        return null;
+    }
+
+    // 灯箱按笔记中的顺序浏览其中所有的 WebDAV 图片
+    private async getGallery(img: HTMLElement, url: string): Promise<string[]> {
+        const urls: string[] = [];
+        const note = this.getNote(img);
+        if (note) {
+            const content = await this.host.app.vault.cachedRead(note);
+            for (const link of findWebDAVLinks(content, u => this.host.getClientForUrl(u))) {
+                if (link.isEmbed && getFileType(link.remotePath) === 'image' && urls.indexOf(link.url) < 0) {
+                    urls.push(link.url);
+                }
+            }
+        }
+        // 引用式或 HTML 图片不在链接列表中
+        if (urls.indexOf(url) < 0) urls.unshift(url);
+        return urls;
+    }
+}
+
+// 全屏查看原图，左右方向键或按钮切换，点击图片在适应窗口与原始大小之间切换
+class ImageLightboxModal extends Modal {
+    imageCache: ImageCache;
+    urls: string[];
+    index: number;
+    imageEl: HTMLImageElement;
+    captionEl: HTMLElement;
+    zoomed = false;
+
+    constructor(app: App, imageCache: ImageCache, urls: string[], index: number) {
+        super(app);
+        this.imageCache = imageCache;
+        this.urls = urls;
+        this.index = index;
+    }
+
+    onOpen() {
+        const { contentEl, modalEl } = this;
+        modalEl.style.width = '95vw';
+        modalEl.style.height = '95vh';
+        modalEl.style.maxWidth = 'none';
+        modalEl.style.maxHeight = 'none';
+        contentEl.style.display = 'flex';
+        contentEl.style.flexDirection = 'column';
+        contentEl.style.height = '100%';
+
+        const stage = contentEl.createDiv({ attr: { style: 'flex: 1; overflow: auto; display: flex; align-items: center; justify-content: center; min-height: 0;' } });
+        this.imageEl = stage.createEl('img', { attr: { style: 'max-width: 100%; max-height: 100%; object-fit: contain; cursor: zoom-in;' } });
+        this.imageEl.onclick = () => this.toggleZoom();
+
+        const toolbar = contentEl.createDiv({ attr: { style: 'display: flex; align-items: center; justify-content: center; gap: 12px; padding-top: 8px;' } });
+        const prevBtn = toolbar.createEl('button', { text: '‹ 上一张' });
+        prevBtn.onclick = () => this.show(this.index - 1);
+        this.captionEl = toolbar.createSpan({ attr: { style: 'color: var(--text-muted);' } });
+        const nextBtn = toolbar.createEl('button', { text: '下一张 ›' });
+        nextBtn.onclick = () => this.show(this.index + 1);
+        if (this.urls.length < 2) {
+            prevBtn.hide();
+            nextBtn.hide();
+        }
+
+        this.scope.register([], 'ArrowLeft', () => {
+            this.show(this.index - 1);
+            return false;
+        });
+        this.scope.register([], 'ArrowRight', () => {
+            this.show(this.index + 1);
+            return false;
+        });
+
+        this.show(this.index);
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    async show(index: number) {
+        this.index = (index + this.urls.length) % this.urls.length;
+        const url = this.urls[this.index];
+        this.setZoom(false);
+        this.imageEl.removeAttribute('src');
+        this.imageEl.style.opacity = '0.5';
+        const name = getFileName(url);
+        this.captionEl.setText(`${this.index + 1} / ${this.urls.length}  ${name}`);
+
+        try {
+            const dataUrl = await this.imageCache.load(url);
+            if (this.urls[this.index] !== url) return; // 加载期间已切换到其他图片
+            this.imageEl.setAttribute('src', dataUrl);
+            this.imageEl.style.opacity = '1';
+        } catch (error) {
+            if (this.urls[this.index] !== url) return;
+            console.error('[WebDAV Uploader] Failed to load image:', url, error);
+            this.captionEl.setText(`${this.index + 1} / ${this.urls.length}  ${name}  ⚠️ 加载失败: ${error.message}`);
+        }
+    }
+
+    toggleZoom() {
+        this.setZoom(!this.zoomed);
+    }
+
+    private setZoom(zoomed: boolean) {
+        this.zoomed = zoomed;
+        this.imageEl.style.maxWidth = zoomed ? 'none' : '100%';
+        this.imageEl.style.maxHeight = zoomed ? 'none' : '100%';
+        this.imageEl.style.cursor = zoomed ? 'zoom-out' : 'zoom-in';
+    }
+}
+
+function getWebDAVImage(evt: MouseEvent): HTMLImageElement | null {
+    const target = evt.target;
+    if (!(target instanceof HTMLImageElement) || !target.dataset.webdavUrl) return null;
+    // 仍在加载或加载失败的图片没有可查看的内容
+    return target.getAttribute('src') ? target : null;
+}
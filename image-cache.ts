@@ -0,0 +1,307 @@
+import { App, arrayBufferToBase64 } from 'obsidian';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { WebDAVClient, WebDAVError, WebDAVResponse, parseNextcloudUrl } from './webdav-client';
+import { downscaleImage } from './image-processing';
+
+interface ImageCacheHost {
+    app: App;
+    settings: {
+        imageCacheSize: number; // MB，0 表示不使用磁盘缓存
+    };
+    getClientForUrl(url: string): WebDAVClient | null;
+}
+
+interface CacheEntry {
+    file: string;         // 缓存文件名（URL 的 SHA-1）
+    etag: string;
+    lastModified: string;
+    contentType: string;
+    size: number;
+    lastAccess: number;
+    checkedAt: number;    // 上次向服务器确认内容未变化的时间
+    source?: string;      // 实际请求的地址，缩略图可能来自 Nextcloud 预览接口
+    width?: number;       // 下载后需要在本地缩小到的宽度，0 表示按原样保存
+}
+
+// 距上次确认超过该时间后，使用缓存的同时在后台向服务器重新验证
+const REVALIDATE_INTERVAL = 10 * 60 * 1000;
+interface DownloadedImage {
+    data: ArrayBuffer;
+    contentType: string;
+    headers: Record<string, string>;
+    source: string;
+    width: number;
+}
+
+// 内存中保留最近使用的 data URL，避免同一图片反复读取磁盘
+const MEMORY_LIMIT = 32 * 1024 * 1024;
+const INDEX_SAVE_DELAY = 1000;
+
+// 阅读视图与实时阅览共用的图片缓存：内存 LRU + 插件目录中的磁盘 LRU，
+// 磁盘缓存使用 ETag / Last-Modified 条件请求重新验证，离线时直接使用缓存
+export class ImageCache {
+    host: ImageCacheHost;
+    private dir: string;
+    private index: Record<string, CacheEntry> = {}; // 缓存键（URL，缩略图附带宽度）-> 缓存条目
+    private loaded: Promise<void> | null = null;
+    private memory = new Map<string, string>(); // 缓存键 -> data URL，按使用顺序排列
+    private memorySize = 0;
+    private pending = new Map<string, Promise<string>>();
+    private saveTimer: number | null = null;
+
+    constructor(host: ImageCacheHost, dir: string) {
+        this.host = host;
+        this.dir = dir;
+    }
+
+    // 已在内存中的图片可同步取得，避免重绘时闪烁
+    peek(url: string, width = 0): string | undefined {
+        const key = getCacheKey(url, width);
+        const dataUrl = this.memory.get(key);
+        if (dataUrl !== undefined) this.remember(key, dataUrl);
+        return dataUrl;
+    }
+
+    // 返回图片的 data URL，width 大于 0 时返回该宽度的缩略图；同一图片的并发请求只下载一次
+    load(url: string, width = 0): Promise<string> {
+        const cached = this.peek(url, width);
+        if (cached !== undefined) return Promise.resolve(cached);
+
+        const key = getCacheKey(url, width);
+        let pending = this.pending.get(key);
+        if (!pending) {
+            pending = this.fetch(key, url, width);
+            this.pending.set(key, pending);
+            const done = () => { this.pending.delete(key); };
+            pending.then(done, done);
+        }
+        return pending;
+    }
+
+    async getSize(): Promise<number> {
+        await this.ensureLoaded();
+        return Object.keys(this.index).reduce((total, url) => total + this.index[url].size, 0);
+    }
+
+    async clear() {
+        await this.ensureLoaded();
+        this.memory.clear();
+        this.memorySize = 0;
+        this.index = {};
+        const adapter = this.host.app.vault.adapter;
+        if (await adapter.exists(this.dir)) await adapter.rmdir(this.dir, true);
+    }
+
+    // 远程文件被替换或删除后，丢弃原图及所有缩略图
+    async forget(url: string) {
+        await this.ensureLoaded();
+        const matches = (key: string) => key === url || key.startsWith(`${url}#width=`);
+        for (const key of Array.from(this.memory.keys())) {
+            if (matches(key)) this.dropFromMemory(key);
+        }
+
+        const adapter = this.host.app.vault.adapter;
+        for (const key of Object.keys(this.index).filter(matches)) {
+            const filePath = `${this.dir}/${this.index[key].file}`;
+            delete this.index[key];
+            if (await adapter.exists(filePath)) await adapter.remove(filePath);
+        }
+        this.scheduleSave();
+    }
+
+    // 卸载插件前写入尚未保存的索引
+    async flush() {
+        if (this.saveTimer === null) return;
+        window.clearTimeout(this.saveTimer);
+        await this.saveIndex();
+    }
+
+    private async fetch(key: string, url: string, width: number): Promise<string> {
+        const client = this.host.getClientForUrl(url);
+        if (!client) throw new Error('No WebDAV server matches this URL');
+
+        await this.ensureLoaded();
+        const entry = this.index[key];
+        if (entry && this.host.settings.imageCacheSize > 0) {
+            const data = await this.readFile(entry);
+            if (data) {
+                entry.lastAccess = Date.now();
+                this.scheduleSave();
+                if (Date.now() - entry.checkedAt > REVALIDATE_INTERVAL) {
+                    this.revalidate(client, key, entry).catch(e => console.error('[WebDAV Uploader] Revalidate image failed:', url, e));
+                }
+                return this.remember(key, encodeDataUrl(data, entry.contentType));
+            }
+        }
+
+        const image = width > 0 ? await this.downloadThumbnail(client, url, width) : await this.download(client.get(url), url, 0);
+        await this.store(key, image);
+        return this.remember(key, encodeDataUrl(image.data, image.contentType));
+    }
+
+    // 优先使用 Nextcloud 的预览接口生成缩略图，服务器不支持时下载原图后在本地缩小
+    private async downloadThumbnail(client: WebDAVClient, url: string, width: number): Promise<DownloadedImage> {
+        const previewUrl = getPreviewUrl(client, url, width);
+        if (previewUrl) {
+            try {
+                return await this.download(client.get(previewUrl), previewUrl, 0);
+            } catch (error) {
+                if (!(error instanceof WebDAVError) || error.status === 0) throw error;
+            }
+        }
+        return this.download(client.get(url), url, width);
+    }
+
+    private async download(request: Promise<WebDAVResponse>, source: string, width: number): Promise<DownloadedImage> {
+        const response = await request;
+        let data = response.arrayBuffer;
+        let contentType = response.headers['content-type'] || 'image/png';
+        if (width > 0) {
+            // 无法解码时保留原图，交给 <img> 处理
+            const scaled = await downscaleImage(data, contentType, width).catch(() => null);
+            if (scaled) ({ data, contentType } = scaled);
+        }
+        return { data, contentType, headers: response.headers, source, width };
+    }
+
+    // 条件请求：304 表示未变化；网络错误（离线）时继续使用缓存
+    private async revalidate(client: WebDAVClient, key: string, entry: CacheEntry) {
+        const headers: Record<string, string> = {};
+        if (entry.etag) headers['If-None-Match'] = entry.etag;
+        if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+
+        try {
+            const source = entry.source || key;
+            await this.store(key, await this.download(client.request('GET', source, headers), source, entry.width || 0));
+            this.dropFromMemory(key);
+        } catch (error) {
+            if (!(error instanceof WebDAVError) || (error.status !== 304 && error.status !== 0)) throw error;
+            if (error.status === 304) {
+                entry.checkedAt = Date.now();
+                this.scheduleSave();
+            }
+        }
+    }
+
+    private async store(key: string, image: DownloadedImage) {
+        const limit = this.host.settings.imageCacheSize * 1024 * 1024;
+        if (image.data.byteLength > limit) return;
+
+        const adapter = this.host.app.vault.adapter;
+        if (!await adapter.exists(this.dir)) await adapter.mkdir(this.dir);
+
+        const file = crypto.createHash('sha1').update(key).digest('hex');
+        await adapter.writeBinary(`${this.dir}/${file}`, image.data);
+        const now = Date.now();
+        this.index[key] = {
+            file,
+            etag: image.headers['etag'] || '',
+            lastModified: image.headers['last-modified'] || '',
+            contentType: image.contentType,
+            size: image.data.byteLength,
+            lastAccess: now,
+            checkedAt: now,
+            source: image.source,
+            width: image.width
+        };
+        await this.evict(limit);
+        this.scheduleSave();
+    }
+
+    // 超出大小限制时删除最久未使用的图片
+    private async evict(limit: number) {
+        const urls = Object.keys(this.index).sort((a, b) => this.index[a].lastAccess - this.index[b].lastAccess);
+        let total = urls.reduce((sum, url) => sum + this.index[url].size, 0);
+        const adapter = this.host.app.vault.adapter;
+
+        for (const url of urls) {
+            if (total <= limit) break;
+            const entry = this.index[url];
+            delete this.index[url];
+            total -= entry.size;
+            const filePath = `${this.dir}/${entry.file}`;
+            if (await adapter.exists(filePath)) await adapter.remove(filePath);
+        }
+    }
+
+    private async readFile(entry: CacheEntry): Promise<ArrayBuffer | null> {
+        try {
+            return await this.host.app.vault.adapter.readBinary(`${this.dir}/${entry.file}`);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    private remember(url: string, dataUrl: string): string {
+        this.dropFromMemory(url);
+        this.memory.set(url, dataUrl);
+        this.memorySize += dataUrl.length;
+
+        // Map 按插入顺序遍历，最前面的是最久未使用的
+        const urls = Array.from(this.memory.keys());
+        for (let i = 0; this.memorySize > MEMORY_LIMIT && i < urls.length - 1; i++) {
+            this.dropFromMemory(urls[i]);
+        }
+        return dataUrl;
+    }
+
+    // 移出内存缓存时同步扣减占用的大小
+    private dropFromMemory(key: string) {
+        const dataUrl = this.memory.get(key);
+        if (dataUrl === undefined) return;
+        this.memorySize -= dataUrl.length;
+        this.memory.delete(key);
+    }
+
+    private ensureLoaded(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                const indexPath = `${this.dir}/index.json`;
+                try {
+                    if (await this.host.app.vault.adapter.exists(indexPath)) {
+                        this.index = JSON.parse(await this.host.app.vault.adapter.read(indexPath));
+                    }
+                } catch (e) {
+                    console.error('[WebDAV Uploader] Failed to read image cache index:', e);
+                    this.index = {};
+                }
+            })();
+        }
+        return this.loaded;
+    }
+
+    private scheduleSave() {
+        if (this.saveTimer !== null) window.clearTimeout(this.saveTimer);
+        this.saveTimer = window.setTimeout(() => this.saveIndex(), INDEX_SAVE_DELAY);
+    }
+
+    private async saveIndex() {
+        this.saveTimer = null;
+        const adapter = this.host.app.vault.adapter;
+        if (!await adapter.exists(this.dir)) await adapter.mkdir(this.dir);
+        await adapter.write(`${this.dir}/index.json`, JSON.stringify(this.index));
+    }
+}
+
+// 缩略图与原图分别缓存
+function getCacheKey(url: string, width: number): string {
+    return width > 0 ? `${url}#width=${width}` : url;
+}
+
+// Nextcloud/ownCloud 的预览接口地址，其他服务器返回 null
+function getPreviewUrl(client: WebDAVClient, url: string, width: number): string | null {
+    const remotePath = client.toRemotePath(url);
+    if (remotePath === null) return null;
+
+    const location = parseNextcloudUrl(client.getBaseUrl());
+    if (!location) return null;
+
+    const file = path.posix.join('/', location.rootPath, remotePath);
+    // a=1 保持宽高比，高度不做限制
+    return `${location.origin}${location.basePath}/index.php/core/preview.png?file=${encodeURIComponent(file)}&x=${width}&y=${width * 8}&a=1&forceIcon=0`;
+}
+
+function encodeDataUrl(data: ArrayBuffer, contentType: string): string {
+    return `data:${contentType};base64,${arrayBufferToBase64(data)}`;
+}
@@ -0,0 +1,135 @@
+import { WebDAVError } from './webdav-client';
+import { ImageCache } from './image-cache';
+
+interface ImageLoaderHost {
+    imageCache: ImageCache;
+    settings: {
+        thumbnailWidth: number; // 缩略图宽度 (px)，0 表示始终加载原图
+    };
+}
+
+// 提前加载即将滚入视口的图片
+const ROOT_MARGIN = '300px';
+// 缩略图宽度按该步长向上取整，显示宽度相近的图片共用缓存
+const WIDTH_STEP = 200;
+
+// 阅读视图与实时阅览共用：WebDAV 图片先显示占位骨架，进入视口后才加载缩略图，失败时显示重试按钮
+export class ImageLoader {
+    host: ImageLoaderHost;
+    private observer: IntersectionObserver | null = null;
+    private waiting = new WeakMap<Element, () => void>(); // 骨架 -> 进入视口后的加载函数
+    private skeletons = new WeakMap<HTMLElement, HTMLElement>(); // 图片 -> 骨架
+    private displays = new WeakMap<HTMLElement, string>(); // 图片 -> 隐藏前的 display
+    private detached = new WeakSet<HTMLElement>();
+
+    constructor(host: ImageLoaderHost) {
+        this.host = host;
+    }
+
+    // img 需要已有父元素；url 为图片的 WebDAV 地址
+    attach(img: HTMLImageElement, url: string) {
+        this.detached.delete(img);
+        // 重新加载时先移除上一次的骨架
+        const previous = this.skeletons.get(img);
+        if (previous) {
+            previous.remove();
+            this.skeletons.delete(img);
+            img.style.display = this.displays.get(img) ?? img.style.display;
+        }
+        // 去掉原地址，避免浏览器不带凭据请求而显示破损图标；原地址供点击放大和右键菜单使用
+        img.removeAttribute('src');
+        img.dataset.webdavUrl = url;
+        img.style.cursor = 'zoom-in';
+
+        const width = this.getThumbnailWidth(img);
+        const cached = this.host.imageCache.peek(url, width);
+        if (cached !== undefined) {
+            img.setAttribute('src', cached);
+            return;
+        }
+
+        const display = img.style.display;
+        this.displays.set(img, display);
+        img.style.display = 'none';
+        const skeleton = createDiv({ cls: 'webdav-image-skeleton' });
+        const explicitWidth = img.getAttribute('width');
+        const explicitHeight = img.getAttribute('height');
+        if (explicitWidth) skeleton.style.width = `${explicitWidth}px`;
+        if (explicitHeight) skeleton.style.height = `${explicitHeight}px`;
+        img.before(skeleton);
+        this.skeletons.set(img, skeleton);
+
+        this.waiting.set(skeleton, () => this.load(img, url, width, skeleton, display));
+        this.getObserver().observe(skeleton);
+    }
+
+    // 图片已从页面移除（例如实时阅览中被编辑掉），取消尚未开始或未完成的加载
+    detach(img: HTMLElement) {
+        this.detached.add(img);
+        const skeleton = this.skeletons.get(img);
+        if (skeleton && this.observer) {
+            this.observer.unobserve(skeleton);
+            this.waiting.delete(skeleton);
+        }
+    }
+
+    // 远程文件被替换后重新加载页面上所有显示它的图片
+    reload(url: string) {
+        for (const img of Array.from(document.querySelectorAll<HTMLImageElement>('img[data-webdav-url]'))) {
+            if (img.dataset.webdavUrl === url) this.attach(img, url);
+        }
+    }
+
+    destroy() {
+        this.observer?.disconnect();
+        this.observer = null;
+    }
+
+    private getObserver(): IntersectionObserver {
+        if (!this.observer) {
+            this.observer = new IntersectionObserver(entries => {
+                for (const entry of entries) {
+                    if (!entry.isIntersecting) continue;
+                    this.observer?.unobserve(entry.target);
+                    const load = this.waiting.get(entry.target);
+                    this.waiting.delete(entry.target);
+                    if (load) load();
+                }
+            }, { rootMargin: ROOT_MARGIN });
+        }
+        return this.observer;
+    }
+
+    private async load(img: HTMLImageElement, url: string, width: number, skeleton: HTMLElement, display: string) {
+        skeleton.empty();
+        skeleton.removeClass('is-error');
+        try {
+            const src = await this.host.imageCache.load(url, width);
+            // 加载期间图片已被移除，结果仍保留在缓存中
+            if (this.detached.has(img) || this.skeletons.get(img) !== skeleton) return;
+            img.setAttribute('src', src);
+            img.style.display = display;
+            skeleton.remove();
+        } catch (e) {
+            if (this.detached.has(img) || this.skeletons.get(img) !== skeleton) return;
+            console.error('[WebDAV Uploader] Failed to load image:', url, e);
+            const reason = e instanceof WebDAVError && e.status ? ` (${e.status})` : '';
+            skeleton.addClass('is-error');
+            skeleton.createSpan({ text: `⚠️ 图片加载失败${reason}: ${img.alt || url}` });
+            const retryBtn = skeleton.createEl('button', { text: '重试' });
+            retryBtn.onclick = (evt) => {
+                evt.preventDefault();
+                evt.stopPropagation();
+                this.load(img, url, width, skeleton, display);
+            };
+        }
+    }
+
+    // 按显示宽度（![alt|300](url) 指定的宽度或设置中的缩略图宽度）和屏幕像素比计算
+    private getThumbnailWidth(img: HTMLImageElement): number {
+        const thumbnailWidth = this.host.settings.thumbnailWidth;
+        if (thumbnailWidth <= 0) return 0;
+        const displayWidth = parseInt(img.getAttribute('width') || '', 10) || thumbnailWidth;
+        return Math.ceil(displayWidth * (window.devicePixelRatio || 1) / WIDTH_STEP) * WIDTH_STEP;
+    }
+}
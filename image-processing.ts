@@ -0,0 +1,148 @@
+import * as path from 'path';
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ImageProcessingRule {
+    enabled: boolean;
+    maxWidth: number;       // 0 表示不限制
+    maxHeight: number;      // 0 表示不限制
+    quality: number;        // 1-100，仅对 JPEG/WebP 输出有效
+    convertToWebp: boolean;
+    stripMetadata: boolean; // 重新编码以去除 EXIF/GPS 等元数据
+}
+
+export type ImageProcessingSettings = Record<ImageFormat, ImageProcessingRule>;
+
+export interface ProcessedImage {
+    data: ArrayBuffer;
+    fileName: string;
+}
+
+export const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = {
+    jpeg: 'JPEG',
+    png: 'PNG',
+    webp: 'WebP'
+};
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingSettings = {
+    jpeg: { enabled: false, maxWidth: 1920, maxHeight: 0, quality: 85, convertToWebp: false, stripMetadata: true },
+    png: { enabled: false, maxWidth: 1920, maxHeight: 0, quality: 85, convertToWebp: true, stripMetadata: true },
+    webp: { enabled: false, maxWidth: 1920, maxHeight: 0, quality: 85, convertToWebp: false, stripMetadata: true }
+};
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp'
+};
+
+// 根据扩展名判断可处理的图片格式，GIF/SVG 等不处理
+export function getImageFormat(fileName: string): ImageFormat | null {
+    switch (path.extname(fileName).toLowerCase()) {
+        case '.jpg':
+        case '.jpeg':
+            return 'jpeg';
+        case '.png':
+            return 'png';
+        case '.webp':
+            return 'webp';
+        default:
+            return null;
+    }
+}
+
+// 按规则缩放、压缩或转换图片，无需处理、无法解码或处理后反而更大时返回 null（上传原图）
+export async function processImage(data: ArrayBuffer, fileName: string, settings: ImageProcessingSettings): Promise<ProcessedImage | null> {
+    const format = getImageFormat(fileName);
+    if (!format) return null;
+
+    const rule = settings[format];
+    if (!rule || !rule.enabled) return null;
+
+    let image: HTMLImageElement;
+    try {
+        image = await loadImageData(data, MIME_TYPES[format]);
+    } catch (error) {
+        // 文件损坏或扩展名与内容不符时不处理
+        console.warn('[WebDAV Uploader] Skip image processing:', fileName, error);
+        return null;
+    }
+    const scale = Math.min(
+        1,
+        rule.maxWidth > 0 ? rule.maxWidth / image.naturalWidth : 1,
+        rule.maxHeight > 0 ? rule.maxHeight / image.naturalHeight : 1
+    );
+    const outputFormat: ImageFormat = rule.convertToWebp ? 'webp' : format;
+
+    const needsResize = scale < 1;
+    const needsConvert = outputFormat !== format;
+    const needsReencode = needsResize || needsConvert || rule.stripMetadata || outputFormat !== 'png';
+    if (!needsReencode) return null;
+
+    // <img> 会按 EXIF 方向旋转，因此去除元数据后图片方向仍然正确
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) => {
+        canvas.toBlob(resolve, MIME_TYPES[outputFormat], Math.min(100, Math.max(1, rule.quality)) / 100);
+    });
+    if (!blob) return null;
+
+    const output = await blob.arrayBuffer();
+    // 仅重新压缩时如果结果更大，保留原图
+    if (output.byteLength >= data.byteLength && !needsResize && !needsConvert && !rule.stripMetadata) {
+        return null;
+    }
+
+    const ext = path.extname(fileName);
+    const outputName = needsConvert ? `${path.basename(fileName, ext)}.webp` : fileName;
+    return { data: output, fileName: outputName };
+}
+
+// 将图片缩小到指定宽度用于显示；已经足够小，或者是动图、矢量图等不适合重新编码的格式时返回 null
+export async function downscaleImage(data: ArrayBuffer, contentType: string, maxWidth: number): Promise<{ data: ArrayBuffer; contentType: string } | null> {
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    if (['image/jpeg', 'image/png', 'image/webp', 'image/bmp'].indexOf(type) < 0) return null;
+
+    const image = await loadImageData(data, type);
+    if (image.naturalWidth <= maxWidth) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = maxWidth;
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * maxWidth / image.naturalWidth));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    // JPEG 保持 JPEG，其他格式使用支持透明的 WebP
+    const outputType = type === 'image/jpeg' ? 'image/jpeg' : 'image/webp';
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, outputType, 0.85));
+    if (!blob) return null;
+    return { data: await blob.arrayBuffer(), contentType: outputType };
+}
+
+// 加载 data URL、blob URL 等地址的图片
+export function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('无法解码图片'));
+        image.src = src;
+    });
+}
+
+function loadImageData(data: ArrayBuffer, type: string): Promise<HTMLImageElement> {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const release = () => URL.revokeObjectURL(url);
+    return loadImage(url).then(image => {
+        release();
+        return image;
+    }, error => {
+        release();
+        throw error;
+    });
+}
@@ -1,16 +1,50 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFolder, TFile, requestUrl } from 'obsidian';
+import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFolder, TFile, moment, normalizePath } from 'obsidian';
 import * as fs from 'fs';
 import * as path from 'path';
+import { NewUploadItem, PreparedUpload, UploadQueue, UploadQueueItem } from './upload-queue';
+import { UploadQueueView, VIEW_TYPE_UPLOAD_QUEUE } from './upload-queue-view';
+import { ChunkedUploadMode } from './chunked-upload';
+import { FileHashes, compareWithRemote, computeFileHashes } from './file-hash';
+import { DEFAULT_FILENAME_TEMPLATE, renderFileNameTemplate, templateNeedsHash } from './filename-template';
+import { DEFAULT_FOLDER_TEMPLATE, renderFolderTemplate } from './folder-template';
+import { AttachmentMigrator, MigrationModal } from './migration';
+import { AttachmentDownloader, DownloadModal } from './reverse-migration';
+import { OrphanFinder, OrphanModal } from './orphan-finder';
+import { RenameLogEntry, RenameLogModal, RenameSync } from './rename-sync';
+import { RemoteTrash } from './remote-trash';
+import { RemoteBrowserView, VIEW_TYPE_REMOTE_BROWSER } from './remote-browser-view';
+import { PublicShares } from './public-share';
+import { NotePublisher, PUBLISH_MODE_LABELS, PublishMode, PublishResult } from './publish-export';
+import { AUTH_MODE_LABELS, AuthConfig, AuthMode, isAuthConfigured } from './webdav-auth';
+import { CREDENTIAL_STORAGE_LABELS, CredentialStorage, CredentialStore, PassphraseModal } from './credential-store';
+import { DEFAULT_IMAGE_PROCESSING, IMAGE_FORMAT_LABELS, ImageFormat, ImageProcessingSettings, getImageFormat, processImage } from './image-processing';
+
+// 额外的 WebDAV 服务器；基础设置中的服务器为默认服务器，id 为空字符串
+interface ServerProfile {
+    id: string;
+    name: string;
+    webdavUrl: string;
+    authMode: AuthMode;
+    username: string;
+    password: string; // Bearer/自定义请求头模式下为令牌
+    authHeaderName: string;
+    publicBaseUrl?: string; // 镜像 WebDAV 根目录的公开地址，发布笔记时使用
+}
 
 interface PathMapping {
     localPath: string;
     remotePath: string;
+    serverId?: string; // 上传到的服务器，留空为默认服务器
+    folderTemplate?: string; // 该映射使用的文件夹模板，留空时使用全局模板
+    imageProcessing?: ImageProcessingSettings; // 该映射单独的图片处理设置，未设置时使用全局设置
 }
 
 interface WebDAVUploaderSettings {
     webdavUrl: string;
+    authMode: AuthMode; // 默认服务器的认证方式
     username: string;
-    password: string;
+    password: string; // Bearer/自定义请求头模式下为令牌
+    authHeaderName: string; // 自定义请求头模式下的请求头名称
     rootFolder: string;
     pathMappings: PathMapping[];
     // 新增：本地同步文件夹设置
@@ -19,31 +53,334 @@ interface WebDAVUploaderSettings {
     pathMode: 'note' | 'local'; // 路径决定模式：note=笔记路径，local=文件本地路径
     preferExistingLink: boolean; // 如果文件已存在于云端，优先插入链接而不上传
     enableRenameModal: boolean; // 拖拽时是否弹出重命名确认窗口
+    uploadConcurrency: number; // 同时进行的上传数量
+    uploadMaxRetries: number; // 上传失败后的最大重试次数
+    uploadQueue: UploadQueueItem[]; // 未完成的上传队列，重启后继续
+    chunkedUploadMode: ChunkedUploadMode; // 大文件分块上传协议
+    chunkedUploadThreshold: number; // 超过该大小 (MB) 的文件使用分块上传
+    chunkSize: number; // 分块大小 (MB)
+    duplicateAction: DuplicateAction; // 云端已有同名但内容不同的文件时的处理方式
+    hashIndex: Record<string, string>; // 已上传文件的 SHA-256 -> 远程文件 URL
+    fileNameTemplate: string; // 上传后的文件名模板
+    folderTemplate: string; // 笔记路径模式下的远程文件夹模板
+    imageProcessing: ImageProcessingSettings; // 上传前按图片格式进行的处理
+    downloadFolder: string; // 下载 WebDAV 附件到仓库时保存的文件夹，留空使用 Obsidian 的附件设置
+    archiveFolder: string; // 孤立附件归档到的远程文件夹
+    referenceHistory: Record<string, string>; // 远程文件 URL -> 最后一次引用它的笔记
+    syncRemoteOnRename: boolean; // 笔记或文件夹重命名后同步移动远程附件
+    renameLog: RenameLogEntry[]; // 同步移动的日志
+    trashRemovedLinks: boolean; // 链接被删除且无其他引用时，将远程文件移到回收站
+    trashFolder: string; // WebDAV 回收站文件夹
+    trashRetentionDays: number; // 清空回收站时保留最近多少天的文件
+    servers: ServerProfile[]; // 默认服务器之外的服务器
+    syncFolderServerId: string; // 本地同步文件夹对应的服务器
+    credentialStorage: CredentialStorage; // 密码的保存方式
+    encryptedPasswords: Record<string, string>; // 服务器 id -> 加密后的密码，不使用明文保存时写入
+    passphraseSalt: string; // 由主密码派生密钥时使用的盐
+    publicShareLinks: boolean; // 上传后创建公开共享并插入公开链接
+    sharePassword: string; // 公开共享的密码，留空不设置
+    shareExpireDays: number; // 公开共享的有效天数，0 为永久
+    shareLinks: Record<string, string>; // 公开链接 -> 对应的 WebDAV 文件 URL
+    publishMode: PublishMode; // 复制或导出笔记用于发布时 WebDAV 链接的处理方式
+    exportFolder: string; // 导出笔记的本地文件夹
+    publicBaseUrl: string; // 默认服务器的公开地址
+    imageCacheSize: number; // 图片磁盘缓存的大小上限 (MB)，0 表示不缓存到磁盘
+    thumbnailWidth: number; // 笔记中显示的缩略图宽度 (px)，0 表示加载原图
+    previewMaxSize: number; // PDF、音视频超过该大小 (MB) 时需点击后才下载预览，0 表示不预览
+    offlineFolder: string; // 无法连接服务器时暂存文件的仓库文件夹
 }
 
+type DuplicateAction = 'ask' | 'link' | 'overwrite' | 'rename';
+
 const DEFAULT_SETTINGS: WebDAVUploaderSettings = {
     webdavUrl: '',
+    authMode: 'basic',
     username: '',
     password: '',
+    authHeaderName: '',
     rootFolder: '/',
     pathMappings: [],
     localSyncFolder: '',
     remoteSyncFolder: '',
     pathMode: 'note',
     preferExistingLink: true,
-    enableRenameModal: true
+    enableRenameModal: true,
+    uploadConcurrency: 2,
+    uploadMaxRetries: 3,
+    uploadQueue: [],
+    chunkedUploadMode: 'auto',
+    chunkedUploadThreshold: 50,
+    chunkSize: 10,
+    duplicateAction: 'ask',
+    hashIndex: {},
+    fileNameTemplate: DEFAULT_FILENAME_TEMPLATE,
+    folderTemplate: DEFAULT_FOLDER_TEMPLATE,
+    imageProcessing: DEFAULT_IMAGE_PROCESSING,
+    downloadFolder: '',
+    archiveFolder: '/_archive',
+    referenceHistory: {},
+    syncRemoteOnRename: false,
+    renameLog: [],
+    trashRemovedLinks: false,
+    trashFolder: '/_trash',
+    trashRetentionDays: 30,
+    servers: [],
+    syncFolderServerId: '',
+    credentialStorage: 'keychain',
+    encryptedPasswords: {},
+    passphraseSalt: '',
+    publicShareLinks: false,
+    sharePassword: '',
+    shareExpireDays: 0,
+    shareLinks: {},
+    publishMode: 'datauri',
+    exportFolder: '',
+    publicBaseUrl: '',
+    imageCacheSize: 200,
+    thumbnailWidth: 800,
+    previewMaxSize: 50,
+    offlineFolder: 'WebDAV 待上传'
 }
 
 import { createWebDAVImageExtension } from './webdav-image-extension';
+import { WebDAVClient } from './webdav-client';
+import { ImageCache } from './image-cache';
+import { ImageLoader } from './image-loader';
+import { ImageActions } from './image-actions';
+import { ConnectivityMonitor, isNetworkError } from './connectivity';
+import { AttachmentPreviews, getPreviewType } from './attachment-preview';
+import { getExtensionForMime, isImageFile } from './file-types';
+import { formatSize } from './format';
 
 export default class WebDAVUploaderPlugin extends Plugin {
     settings: WebDAVUploaderSettings;
+    client: WebDAVClient; // 默认服务器
+    clients = new Map<string, WebDAVClient>(); // 服务器 id -> 客户端，包含默认服务器
+    uploadQueue: UploadQueue;
+    renameSync: RenameSync;
+    remoteTrash: RemoteTrash;
+    credentials = new CredentialStore(this);
+    publicShares = new PublicShares(this);
+    publisher = new NotePublisher(this);
+    previews = new AttachmentPreviews(this);
+    imageLoader = new ImageLoader(this);
+    imageActions = new ImageActions(this);
+    imageCache: ImageCache;
+    connectivity = new ConnectivityMonitor(this);
+    statusBarEl: HTMLElement;
 
     async onload() {
         await this.loadSettings();
 
         this.addSettingTab(new WebDAVUploaderSettingTab(this.app, this));
 
+        // 后台上传队列：并发上传、失败重试，重启后继续未完成的任务
+        this.uploadQueue = new UploadQueue(this, `${this.manifest.dir}/upload-staging`);
+        this.registerView(VIEW_TYPE_UPLOAD_QUEUE, (leaf) => new UploadQueueView(leaf, this.uploadQueue));
+
+        this.statusBarEl = this.addStatusBarItem();
+        this.statusBarEl.addClass('mod-clickable');
+        this.statusBarEl.onclick = () => this.activateView(VIEW_TYPE_UPLOAD_QUEUE);
+        this.registerEvent(this.uploadQueue.on('change', () => this.updateStatusBar()));
+        this.updateStatusBar();
+
+        this.addCommand({
+            id: 'open-upload-queue',
+            name: '打开上传队列',
+            callback: () => this.activateView(VIEW_TYPE_UPLOAD_QUEUE)
+        });
+
+        // 服务器无法连接时上传暂存在本地，定期检查，恢复连接后自动上传
+        this.registerEvent(this.connectivity.on('change', () => {
+            this.updateStatusBar();
+            this.uploadQueue.resume();
+        }));
+
+        this.addCommand({
+            id: 'flush-offline-uploads',
+            name: '查看并上传离线暂存的文件',
+            callback: async () => {
+                this.activateView(VIEW_TYPE_UPLOAD_QUEUE);
+                const offline = await this.connectivity.check(true);
+                const waiting = this.uploadQueue.items.filter(item => !this.connectivity.isOnline(item.serverId)).length;
+                if (offline > 0) {
+                    new Notice(`仍有 ${offline} 个服务器无法连接，${waiting} 个文件等待上传`);
+                } else {
+                    this.uploadQueue.resume();
+                    new Notice('服务器可以连接，开始上传暂存的文件');
+                }
+            }
+        });
+
+        // 浏览 WebDAV 上的文件并插入链接
+        this.registerView(VIEW_TYPE_REMOTE_BROWSER, (leaf) => new RemoteBrowserView(leaf, this));
+
+        this.addCommand({
+            id: 'open-remote-browser',
+            name: '打开 WebDAV 文件浏览器',
+            callback: () => this.activateView(VIEW_TYPE_REMOTE_BROWSER)
+        });
+
+        // 笔记重命名后，队列中的占位链接位置随之更新；开启同步时按新位置移动远程附件
+        this.renameSync = new RenameSync(this);
+        this.remoteTrash = new RemoteTrash(this);
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            this.uploadQueue.handleRename(file.path, oldPath);
+            this.renameSync.handleRename(file, oldPath);
+            this.remoteTrash.handleRename(file, oldPath);
+        }));
+
+        this.addCommand({
+            id: 'show-remote-rename-log',
+            name: '查看远程附件移动日志',
+            callback: () => new RenameLogModal(this.app, this.settings.renameLog).open()
+        });
+
+        // 开启后，链接被删除且没有其他笔记引用的远程文件会被移到 WebDAV 回收站
+        this.registerEvent(this.app.metadataCache.on('changed', (file, data) => this.remoteTrash.handleChange(file, data)));
+        this.registerEvent(this.app.vault.on('delete', (file) => this.remoteTrash.handleDelete(file)));
+        // 白板不会触发 metadataCache 的 changed 事件
+        this.registerEvent(this.app.vault.on('modify', async (file) => {
+            if (file instanceof TFile && file.extension === 'canvas') {
+                this.remoteTrash.handleChange(file, await this.app.vault.cachedRead(file));
+            }
+        }));
+
+        this.addCommand({
+            id: 'purge-remote-trash',
+            name: '清空 WebDAV 回收站中的过期文件',
+            callback: async () => {
+                try {
+                    const purged = await this.remoteTrash.purge();
+                    new Notice(`已清除 WebDAV 回收站中 ${purged} 个超过 ${this.settings.trashRetentionDays} 天的文件夹`);
+                } catch (error) {
+                    new Notice(`❌ 清空回收站失败: ${error.message}`);
+                }
+            }
+        });
+
+        // 使用主密码加密时，解锁后再开始上传，避免队列中的任务因缺少密码而失败
+        this.app.workspace.onLayoutReady(() => {
+            if (this.credentials.needsUnlock()) {
+                this.promptUnlock();
+            } else {
+                this.uploadQueue.start();
+            }
+            this.remoteTrash.start();
+            this.connectivity.start();
+        });
+
+        // 复制或导出笔记，使 WebDAV 图片在 Obsidian 之外也能显示
+        this.addCommand({
+            id: 'copy-note-for-publishing',
+            name: '复制笔记用于发布',
+            checkCallback: (checking) => {
+                const note = this.app.workspace.getActiveFile();
+                if (!note || note.extension !== 'md') return false;
+                if (!checking) this.publishNote(note, false);
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'export-note-for-publishing',
+            name: '导出笔记用于发布',
+            checkCallback: (checking) => {
+                const note = this.app.workspace.getActiveFile();
+                if (!note || note.extension !== 'md') return false;
+                if (!checking) this.publishNote(note, true);
+                return true;
+            }
+        });
+
+        // 把当前笔记中需要凭据才能查看的 WebDAV 链接转换为公开共享链接
+        this.addCommand({
+            id: 'convert-note-links-to-share-links',
+            name: '将当前笔记的 WebDAV 链接转换为公开链接',
+            checkCallback: (checking) => {
+                const note = this.app.workspace.getActiveFile();
+                if (!note || note.extension !== 'md') return false;
+                if (!checking) this.convertToShareLinks(note.path);
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'unlock-credentials',
+            name: '输入主密码解锁 WebDAV 凭据',
+            checkCallback: (checking) => {
+                if (!this.credentials.needsUnlock()) return false;
+                if (!checking) this.promptUnlock();
+                return true;
+            }
+        });
+
+        // 将已有的本地附件迁移到 WebDAV
+        this.addCommand({
+            id: 'migrate-current-note-attachments',
+            name: '迁移当前笔记的本地附件到 WebDAV',
+            checkCallback: (checking) => {
+                const note = this.app.workspace.getActiveFile();
+                if (!note || note.extension !== 'md') return false;
+                if (!checking) this.startMigration([note], note.path);
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'migrate-vault-attachments',
+            name: '迁移整个仓库的本地附件到 WebDAV',
+            callback: () => this.startMigration(this.app.vault.getMarkdownFiles(), '整个仓库')
+        });
+
+        // 将 WebDAV 附件下载回仓库
+        this.addCommand({
+            id: 'download-current-note-attachments',
+            name: '下载当前笔记的 WebDAV 附件到仓库',
+            checkCallback: (checking) => {
+                const note = this.app.workspace.getActiveFile();
+                if (!note || note.extension !== 'md') return false;
+                if (!checking) this.startDownload([note], note.path);
+                return true;
+            }
+        });
+
+        this.addCommand({
+            id: 'download-vault-attachments',
+            name: '下载整个仓库的 WebDAV 附件到仓库',
+            callback: () => this.startDownload(this.app.vault.getMarkdownFiles(), '整个仓库')
+        });
+
+        // 查找并清理服务器上不再被引用的附件
+        this.addCommand({
+            id: 'find-orphaned-attachments',
+            name: '查找孤立的 WebDAV 附件',
+            callback: () => new OrphanModal(this.app, new OrphanFinder(this)).open()
+        });
+
+        this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+            if (!(file instanceof TFolder)) return;
+            menu.addItem(item => item
+                .setTitle('迁移附件到 WebDAV')
+                .setIcon('upload-cloud')
+                .onClick(() => {
+                    const notes = this.app.vault.getMarkdownFiles().filter(note => file.isRoot() || note.path.startsWith(file.path + '/'));
+                    this.startMigration(notes, file.isRoot() ? '整个仓库' : file.path);
+                }));
+        }));
+
+        // 阅读视图与 Live Preview 共用的图片缓存，保存在插件目录中
+        this.imageCache = new ImageCache(this, `${this.manifest.dir}/image-cache`);
+
+        this.addCommand({
+            id: 'clear-image-cache',
+            name: '清除 WebDAV 图片缓存',
+            callback: async () => {
+                await this.imageCache.clear();
+                new Notice('已清除 WebDAV 图片缓存');
+            }
+        });
+
         // 注册 Live Preview (CodeMirror) 扩展
         this.registerEditorExtension(createWebDAVImageExtension(this));
 
@@ -56,7 +393,7 @@ export default class WebDAVUploaderPlugin extends Plugin {
             // 检查是否拖入了文件
             if (evt.dataTransfer?.files && evt.dataTransfer.files.length > 0) {
                 // Wait for user configuration check
-                if (!this.settings.webdavUrl || !this.settings.username || !this.settings.password) {
+                if (!this.hasConfiguredServer()) {
                     new Notice('WebDAV 未配置，无法上传。请检查设置。');
                     return;
                 }
@@ -66,8 +403,6 @@ export default class WebDAVUploaderPlugin extends Plugin {
                 evt.stopPropagation();
                 evt.stopImmediatePropagation();
 
-                this.initializeClient();
-
                 const files = evt.dataTransfer.files;
                 for (let i = 0; i < files.length; i++) {
                     const file = files[i];
@@ -84,35 +419,61 @@ export default class WebDAVUploaderPlugin extends Plugin {
             document.removeEventListener('drop', dropHandler, true);
         });
 
-        // 注册 Markdown 后处理器，用于渲染 WebDAV 图片（阅读视图）
-        this.registerMarkdownPostProcessor(async (element, context) => {
+        // 监听编辑器粘贴事件，处理剪贴板中的截图和复制的文件
+        this.registerEvent(this.app.workspace.on('editor-paste', async (evt, editor, info) => {
+            if (evt.defaultPrevented) return;
+
+            const files = evt.clipboardData?.files;
+            if (!files || files.length === 0) return;
+
+            const view = info instanceof MarkdownView ? info : this.app.workspace.getActiveViewOfType(MarkdownView);
+            if (!view) return;
+
+            if (!this.hasConfiguredServer()) {
+                new Notice('WebDAV 未配置，无法上传。请检查设置。');
+                return;
+            }
+
+            // 阻止 Obsidian 将粘贴的文件保存到仓库
+            evt.preventDefault();
+
+            // 先复制一份文件列表，剪贴板数据在事件结束后会失效
+            const pastedFiles = Array.from(files);
+            for (const file of pastedFiles) {
+                await this.uploadFile(file, view);
+            }
+        }));
+
+        // 点击 WebDAV 图片打开灯箱，右键显示操作菜单（阅读视图与实时阅览）
+        this.registerDomEvent(document, 'click', (evt) => this.imageActions.handleClick(evt), true);
+        this.registerDomEvent(document, 'contextmenu', (evt) => this.imageActions.handleContextMenu(evt), true);
+
+        // 注册 Markdown 后处理器，用于渲染 WebDAV 图片和附件预览（阅读视图）
+        this.registerMarkdownPostProcessor((element, context) => {
+            // 普通链接显示文件类型图标和大小
+            for (const link of Array.from(element.querySelectorAll('a.external-link'))) {
+                const href = link.getAttribute('href');
+                if (href && this.getClientForUrl(href)) this.previews.renderBadge(link as HTMLElement, href);
+            }
+
+            // PDF、音视频、文本文件的嵌入替换为预览
+            for (const embed of Array.from(element.querySelectorAll('img, audio, video, iframe'))) {
+                const src = embed.getAttribute('src');
+                if (!src || !getPreviewType(src) || !this.getClientForUrl(src)) continue;
+                const container = createDiv();
+                embed.replaceWith(container);
+                this.previews.render(container, src, embed.getAttribute('alt') || '');
+            }
+
             const images = element.querySelectorAll('img');
 
             for (const img of Array.from(images)) {
                 const src = img.getAttribute('src');
                 if (!src) continue;
 
-                const webdavBase = this.settings.webdavUrl.replace(/\/$/, '');
-                if (src.startsWith(webdavBase) || src.startsWith(webdavBase.replace('https://', 'http://'))) {
-                    try {
-                        const auth = btoa(`${this.settings.username}:${this.settings.password}`);
-                        const response = await requestUrl({
-                            url: src,
-                            method: 'GET',
-                            headers: {
-                                'Authorization': `Basic ${auth}`
-                            }
-                        });
-
-                        const blob = new Blob([response.arrayBuffer], { type: response.headers['content-type'] || 'image/png' });
-                        const reader = new FileReader();
-                        reader.onloadend = () => {
-                            img.setAttribute('src', reader.result as string);
-                        };
-                        reader.readAsDataURL(blob);
-                    } catch (e) {
-                        console.error('[WebDAV Uploader] Failed to load image:', src, e);
-                    }
+                // 按图片地址匹配服务器，进入视口后使用对应的凭据加载缩略图（优先使用缓存）
+                if (this.getClientForUrl(src)) {
+                    this.imageLoader.attach(img, src);
                 }
             }
         });
@@ -142,106 +503,347 @@ export default class WebDAVUploaderPlugin extends Plugin {
             const src = img.getAttribute('src');
             if (!src) continue;
 
-            // 跳过已处理的图片
-            if (src.startsWith('data:')) continue;
+            // 跳过已处理的图片，附件预览由后处理器负责
+            if (src.startsWith('data:') || getPreviewType(src)) continue;
 
-            const webdavBase = this.settings.webdavUrl.replace(/\/$/, '');
-            if (src.startsWith(webdavBase)) {
-                try {
-                    const auth = btoa(`${this.settings.username}:${this.settings.password}`);
-                    const response = await requestUrl({
-                        url: src,
-                        method: 'GET',
-                        headers: {
-                            'Authorization': `Basic ${auth}`
-                        }
-                    });
-
-                    const blob = new Blob([response.arrayBuffer], { type: response.headers['content-type'] || 'image/png' });
-                    const reader = new FileReader();
-                    reader.onloadend = () => {
-                        img.setAttribute('src', reader.result as string);
-                    };
-                    reader.readAsDataURL(blob);
-                } catch (e) {
-                    console.error('[WebDAV Uploader] Failed to load image:', src, e);
-                }
+            if (this.getClientForUrl(src)) {
+                this.imageLoader.attach(img, src);
             }
         }
     }
 
     onunload() {
+        this.imageCache.flush();
+        this.previews.clear();
+        this.imageLoader.destroy();
+        this.connectivity.stop();
+        this.uploadQueue.stop();
+        this.renameSync.stop();
+        this.remoteTrash.stop();
+    }
+
+    async startMigration(notes: TFile[], scopeLabel: string) {
+        // 凭据未解锁时密码为空，先解锁再扫描，避免迁移中途逐个失败
+        if (this.credentials.needsUnlock()) {
+            new Notice('WebDAV 凭据尚未解锁，请先输入主密码');
+            this.promptUnlock();
+            return;
+        }
+        if (!this.hasConfiguredServer()) {
+            new Notice('WebDAV 未配置，无法上传。请检查设置。');
+            return;
+        }
 
+        const notice = new Notice('正在扫描本地附件...', 0);
+        try {
+            const migrator = new AttachmentMigrator(this);
+            const plan = await migrator.buildPlan(notes);
+            new MigrationModal(this.app, migrator, scopeLabel, plan).open();
+        } catch (error) {
+            console.error('[WebDAV Uploader] Migration scan failed:', error);
+            new Notice(`扫描失败: ${error.message}`);
+        } finally {
+            notice.hide();
+        }
     }
 
-    // Custom simple WebDAV client to bypass CORS using Obsidian's requestUrl
-    async request(method: string, path: string, headers: Record<string, string> = {}, data?: any): Promise<any> {
-        const url = this.settings.webdavUrl.replace(/\/$/, '') + path;
+    async startDownload(notes: TFile[], scopeLabel: string) {
+        if (!this.hasConfiguredServer()) {
+            new Notice('WebDAV 未配置，请检查设置。');
+            return;
+        }
 
-        const auth = btoa(`${this.settings.username}:${this.settings.password}`);
-        const reqHeaders: Record<string, string> = {
-            'Authorization': `Basic ${auth}`,
-            ...headers
-        };
+        try {
+            const downloader = new AttachmentDownloader(this);
+            const plan = await downloader.buildPlan(notes);
+            new DownloadModal(this.app, downloader, scopeLabel, plan).open();
+        } catch (error) {
+            console.error('[WebDAV Uploader] Download scan failed:', error);
+            new Notice(`扫描失败: ${error.message}`);
+        }
+    }
 
-        const requestParams: any = {
-            url: url,
-            method: method,
-            headers: reqHeaders,
-            body: data
-        };
+    updateStatusBar() {
+        const items = this.uploadQueue.items;
+        if (items.length === 0) {
+            this.statusBarEl.hide();
+            return;
+        }
+
+        const failed = items.filter(i => i.status === 'failed').length;
+        const parts = [`⬆️ ${items.length - failed}`];
+        if (failed > 0) parts.push(`❌ ${failed}`);
+        if (this.connectivity.hasOffline()) parts.push('📴 离线');
+        this.statusBarEl.setText(`WebDAV ${parts.join(' ')}`);
+        this.statusBarEl.show();
+    }
+
+    async activateView(viewType: string) {
+        const existing = this.app.workspace.getLeavesOfType(viewType);
+        if (existing.length > 0) {
+            this.app.workspace.revealLeaf(existing[0]);
+            return;
+        }
 
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (!leaf) return;
+        await leaf.setViewState({ type: viewType, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    // 在笔记中替换一段文本；笔记已在编辑器中打开时直接修改编辑器，避免覆盖未保存的内容
+    async replaceInNote(notePath: string, search: string, replacement: string): Promise<boolean> {
+        for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+            const view = leaf.view as MarkdownView;
+            if (view.file?.path !== notePath) continue;
+
+            const editor = view.editor;
+            const index = editor.getValue().indexOf(search);
+            if (index === -1) return false;
+            editor.replaceRange(replacement, editor.offsetToPos(index), editor.offsetToPos(index + search.length));
+            return true;
+        }
+
+        const note = this.app.vault.getAbstractFileByPath(notePath);
+        if (!(note instanceof TFile)) return false;
+
+        let replaced = false;
+        await this.app.vault.process(note, (content) => {
+            if (!content.includes(search)) return content;
+            replaced = true;
+            return content.replace(search, () => replacement);
+        });
+        return replaced;
+    }
+
+    async publishNote(note: TFile, toFile: boolean) {
+        new Notice(`正在处理 WebDAV 链接（${PUBLISH_MODE_LABELS[this.settings.publishMode]}）...`);
+        let result: PublishResult;
+        let message: string;
         try {
-            const response = await requestUrl(requestParams);
-            return response;
-        } catch (error: any) {
-            console.error(`WebDAV Request Failed: ${method} ${url}`, error);
-            if (error.status === 404) return null; // Handle 404 explicitly for checks
-            throw error;
+            if (toFile) {
+                const exported = await this.publisher.export(note);
+                result = exported;
+                message = `已导出到 ${exported.filePath}`;
+            } else {
+                result = await this.publisher.copy(note);
+                message = '已复制到剪贴板';
+            }
+        } catch (error) {
+            new Notice(`❌ 发布失败: ${error.message}`);
+            return;
+        }
+
+        if (result.skipped.length > 0) {
+            new Notice(`${message}，转换 ${result.converted} 个链接，${result.skipped.length} 个未转换:\n${result.skipped.join('\n')}`, 10000);
+        } else {
+            new Notice(`${message}，转换 ${result.converted} 个链接`);
         }
     }
 
-    async webdavExists(path: string): Promise<boolean> {
+    async convertToShareLinks(notePath: string) {
+        new Notice('正在创建公开链接...');
+        const { converted, errors } = await this.publicShares.convertNote(notePath);
+        if (errors.length > 0) {
+            new Notice(`已转换 ${converted} 个链接，${errors.length} 个失败:\n${errors.join('\n')}`, 10000);
+        } else {
+            new Notice(`已将 ${converted} 个链接转换为公开链接`);
+        }
+    }
+
+    // 开启公开链接时把链接中的 WebDAV 地址替换为公开地址，创建失败时保留原链接
+    async toPublicLink(client: WebDAVClient, remotePath: string, linkText: string): Promise<string> {
+        if (!this.settings.publicShareLinks) return linkText;
         try {
-            // PROPFIND with Depth: 0 to check existence
-            const response = await this.request('PROPFIND', path, {
-                'Depth': '0'
-            });
-            return response != null && response.status >= 200 && response.status < 300;
+            return await this.publicShares.shareLinkText(client, remotePath, linkText);
         } catch (error) {
-            if (error.status === 404) return false;
-            return false;
+            console.error('[WebDAV Uploader] Create share failed:', remotePath, error);
+            new Notice(`❌ 无法创建公开链接，已插入需要凭据的链接: ${error.message}`);
+            return linkText;
+        }
+    }
+
+    // 还没有加密保存的密码时改为设置新的主密码
+    promptUnlock(onUnlocked?: () => void) {
+        new PassphraseModal(this.app, this.credentials.hasEncryptedPasswords() ? 'unlock' : 'set', (passphrase) => {
+            if (!this.credentials.unlock(passphrase)) return false;
+            this.initializeClient();
+            this.uploadQueue.start();
+            onUnlocked?.();
+            return true;
+        }).open();
+    }
+
+    // 根据当前设置重建所有服务器的 WebDAV 客户端，设置变化后需调用
+    initializeClient() {
+        this.client = new WebDAVClient(this.settings);
+        this.clients = new Map([['', this.client]]);
+        for (const server of this.settings.servers) {
+            this.clients.set(server.id, new WebDAVClient(server));
         }
     }
 
-    async webdavCreateDirectory(path: string) {
-        // Recursive creation is harder with simple MKCOL, but we can try simple MKCOL first.
-        // If user needs recursive, we might need a loop. 
-        // For now, let's assume we create the specific folder.
-        // To be robust, we should probably check/create parents, but let's start with single level 
-        // or matching what the library did (library did recursive).
-        // A simple recursive implementation:
+    // 默认服务器在前
+    getServerProfiles(): ServerProfile[] {
+        const { webdavUrl, authMode, username, password, authHeaderName, publicBaseUrl } = this.settings;
+        return [{ id: '', name: '默认服务器', webdavUrl, authMode, username, password, authHeaderName, publicBaseUrl }, ...this.settings.servers];
+    }
+
+    getServerName(serverId: string): string {
+        return this.getServerProfiles().find(server => server.id === serverId)?.name || '默认服务器';
+    }
+
+    getPublicBaseUrl(client: WebDAVClient): string {
+        let serverId = '';
+        this.clients.forEach((c, id) => {
+            if (c === client) serverId = id;
+        });
+        return this.getServerProfiles().find(server => server.id === serverId)?.publicBaseUrl || '';
+    }
+
+    // 找不到对应的服务器（例如已被删除）时使用默认服务器
+    getClient(serverId?: string): WebDAVClient {
+        return this.clients.get(serverId || '') || this.client;
+    }
+
+    // 按链接的地址找到所属的服务器，多个服务器地址互相包含时选择最长的匹配
+    getClientForUrl(url: string): WebDAVClient | null {
+        let best: WebDAVClient | null = null;
+        this.clients.forEach(client => {
+            if (!client.isWebDAVUrl(url)) return;
+            if (!best || client.getBaseUrl().length > best.getBaseUrl().length) best = client;
+        });
+        return best;
+    }
+
+    isServerConfigured(serverId: string): boolean {
+        const server = this.getServerProfiles().find(s => s.id === serverId);
+        return !!server && !!server.webdavUrl && isAuthConfigured(server);
+    }
+
+    hasConfiguredServer(): boolean {
+        return this.getServerProfiles().some(server => this.isServerConfigured(server.id));
+    }
 
-        const parts = path.split('/').filter(p => p);
-        let currentPath = '';
+    // 决定上传到哪个服务器：按匹配的路径映射，同步文件夹内的文件使用同步文件夹对应的服务器
+    resolveServerId(note: TFile, filePath: string, notePath = note.path): string {
+        if (this.settings.pathMode === 'local') {
+            if (filePath && this.isInSyncFolder(filePath)) return this.settings.syncFolderServerId;
+            return (filePath && this.matchLocalMapping(filePath)?.serverId) || '';
+        }
+        return this.matchNoteMapping(note, notePath)?.serverId || '';
+    }
+
+    isInSyncFolder(filePath: string): boolean {
+        if (!this.settings.localSyncFolder || !this.settings.remoteSyncFolder) return false;
+        const normalizedLocalSync = this.settings.localSyncFolder.replace(/[\\\/]+$/, '').replace(/\\/g, '/').toLowerCase();
+        return filePath.replace(/\\/g, '/').toLowerCase().startsWith(normalizedLocalSync);
+    }
 
-        for (const part of parts) {
-            currentPath += '/' + part;
-            const exists = await this.webdavExists(currentPath);
-            if (!exists) {
-                await this.request('MKCOL', currentPath);
+    // 获取文件的本地路径，剪贴板截图等没有本地路径时返回空字符串
+    // 使用 Electron webUtils API (Electron 14+) 或 File.path (旧版)
+    getLocalFilePath(file: File): string {
+        let filePath = '';
+        try {
+            const { webUtils } = require('electron');
+            if (webUtils && webUtils.getPathForFile) {
+                filePath = webUtils.getPathForFile(file);
             }
+        } catch (e) {
+            // webUtils 不可用，尝试 fallback
         }
+
+        // Fallback to File.path
+        return filePath || (file as any).path || '';
     }
 
-    async webdavPut(path: string, data: ArrayBuffer) {
-        await this.request('PUT', path, {
-            'Content-Type': 'application/octet-stream'
-        }, data);
+    // 远程文件浏览器中直接上传到指定文件夹：保留原文件名、不关联笔记，按全局设置处理图片，
+    // 同名文件按「同名文件内容不同时」的设置处理，并通过上传队列上传（支持分块、重试与去重索引）
+    // 返回 false 表示未加入队列（用户取消，或云端已有相同内容的文件）
+    async uploadToFolder(serverId: string, folder: string, file: File): Promise<boolean> {
+        const client = this.getClient(serverId);
+        const filePath = this.getLocalFilePath(file);
+        let fileName = file.name;
+        let data = filePath ? undefined : await file.arrayBuffer();
+
+        let originalSize = 0;
+        if (getImageFormat(fileName)) {
+            const sourceData = data || await file.arrayBuffer();
+            const processed = await processImage(sourceData, fileName, this.settings.imageProcessing);
+            if (processed) {
+                originalSize = sourceData.byteLength;
+                data = processed.data;
+                fileName = processed.fileName;
+            }
+        }
+
+        const hashes = await computeFileHashes(filePath, data);
+        const resolution = await this.resolveDuplicate(client, path.posix.join(folder, fileName), hashes);
+        if (!resolution || !resolution.upload) return false;
+
+        await this.uploadQueue.enqueue({
+            fileName: path.posix.basename(resolution.remotePath),
+            remotePath: resolution.remotePath,
+            serverId,
+            notePath: '',
+            linkText: '',
+            localPath: data ? undefined : filePath,
+            data,
+            sha256: hashes.sha256,
+            originalSize
+        });
+        return true;
     }
 
-    initializeClient() {
-        // No-op, we use methods directly now.
+    // 计算上传的目标服务器、文件名与远程路径，并按设置处理图片
+    // readData 在需要处理图片或计算哈希、而又没有提供内容时读取文件；skipProcessing 用于只需要预估路径的试运行
+    async prepareUpload(note: TFile, filePath: string, fileName: string, source: { data?: ArrayBuffer; readData: () => Promise<ArrayBuffer>; skipProcessing?: boolean }): Promise<PreparedUpload> {
+        const serverId = this.resolveServerId(note, filePath);
+        let data = source.data;
+
+        // 图片预处理：缩放、压缩、格式转换、去除元数据（同步文件夹模式下不上传，无需处理）
+        let originalSize = 0;
+        const usesSyncFolder = this.settings.pathMode === 'local' && !!this.settings.localSyncFolder && !!this.settings.remoteSyncFolder && !!filePath;
+        if (!usesSyncFolder && !source.skipProcessing && getImageFormat(fileName)) {
+            const sourceData = data || await source.readData();
+            const processed = await processImage(sourceData, fileName, this.getImageProcessingSettings(note, filePath));
+            if (processed) {
+                // 处理后的内容从内存上传，不再读取本地文件
+                originalSize = sourceData.byteLength;
+                data = processed.data;
+                fileName = processed.fileName;
+            }
+        }
+
+        // 文件名模板使用内容哈希时需要提前计算
+        let hashes: FileHashes | null = null;
+        if (templateNeedsHash(this.settings.fileNameTemplate)) {
+            hashes = await computeFileHashes(filePath, data || (filePath ? undefined : await source.readData()));
+        }
+
+        // 文件路径模式下，同步文件夹内的文件保持原有的相对路径，不在同步文件夹内的文件只插入本地链接
+        if (usesSyncFolder) {
+            if (!this.isInSyncFolder(filePath)) {
+                return { serverId, fileName, remotePath: '', isLocalLink: true, data, hashes, originalSize };
+            }
+            // 已确认以同步文件夹开头（忽略大小写），按其长度截取相对路径以保留原始大小写
+            const relativePath = filePath.replace(/\\/g, '/')
+                .slice(this.settings.localSyncFolder.replace(/[\\\/]+$/, '').length)
+                .replace(/^[\/\\]/, '');
+            const remoteBase = this.settings.remoteSyncFolder.replace(/\/$/, '');
+            let remotePath = path.posix.join(remoteBase, relativePath);
+            if (!remotePath.startsWith('/')) remotePath = '/' + remotePath;
+            return { serverId, fileName, remotePath, isLocalLink: false, data, hashes, originalSize };
+        }
+
+        // 按文件名模板生成上传后的文件名
+        const templatedName = renderFileNameTemplate(this.settings.fileNameTemplate, {
+            originalName: fileName,
+            noteName: note.basename,
+            hash: hashes?.sha256 || ''
+        });
+        const remotePath = await this.calculateRemotePath(templatedName, note, filePath);
+        return { serverId, fileName: templatedName, remotePath, isLocalLink: false, data, hashes, originalSize };
     }
 
     async uploadFile(file: File, view: MarkdownView) {
@@ -249,90 +851,69 @@ export default class WebDAVUploaderPlugin extends Plugin {
             const activeFile = view.file;
             if (!activeFile) return;
 
-            // 获取文件的本地路径
-            // 使用 Electron webUtils API (Electron 14+) 或 File.path (旧版)
-            let filePath = '';
-            try {
-                const { webUtils } = require('electron');
-                if (webUtils && webUtils.getPathForFile) {
-                    filePath = webUtils.getPathForFile(file);
-                }
-            } catch (e) {
-                // webUtils 不可用，尝试 fallback
-            }
-
-            // Fallback to File.path
-            if (!filePath) {
-                filePath = (file as any).path || '';
-            }
-
+            const filePath = this.getLocalFilePath(file);
             const normalizedFilePath = filePath.replace(/\\/g, '/');
 
-            let remoteFilePath: string = '';
-            let shouldUpload = true;
-            let isLocalLink = false;
-
-            // 根据模式处理
-            if (this.settings.pathMode === 'local') {
-                // ===== 文件路径模式 =====
-                if (this.settings.localSyncFolder && this.settings.remoteSyncFolder && filePath) {
-                    // 标准化并统一转小写进行比较 (Windows)
-                    const normalizedLocalSync = this.settings.localSyncFolder
-                        .replace(/[\\\/]+$/, '')
-                        .replace(/\\/g, '/')
-                        .toLowerCase();
-                    const lowerFilePath = normalizedFilePath.toLowerCase();
-
-                    // 检查文件是否在同步目录内
-                    if (lowerFilePath.startsWith(normalizedLocalSync)) {
-                        // 计算文件在同步目录内的相对路径 (保留原始大小写用于路径)
-                        // 注意：我们需要从原始 normalizedFilePath 中截取，长度需基于原始配置，但由于大小写问题，长度可能不一致？
-                        // 最好是用 slice，因为我们确认 startsWith 了。
-                        // 我们需要知道 localSyncFolder 的长度。这里假设长度是一致的。
-                        const syncFolderLength = this.settings.localSyncFolder.replace(/[\\\/]+$/, '').length;
-                        // 为了安全，重新标准化一次原始配置不做小写转换来获取长度？或者直接搜索索引
-                        // 简单做法：
-                        const relativePath = normalizedFilePath.slice(this.settings.localSyncFolder.replace(/[\\\/]+$/, '').length).replace(/^[\/\\]/, '');
-
-                        // 计算远程路径
-                        const remoteBase = this.settings.remoteSyncFolder.replace(/\/$/, '');
-                        remoteFilePath = path.posix.join(remoteBase, relativePath);
-                        if (!remoteFilePath.startsWith('/')) remoteFilePath = '/' + remoteFilePath;
-                        // 存在性检查将在路径计算完成后统一进行
-                    } else {
-                        // 文件不在同步目录 -> 插入本地链接，不上传
-                        isLocalLink = true;
-                        shouldUpload = false;
-                        // Notice 将在用户确认后显示
-                    }
-                } else {
-                    // 未配置同步目录，回退到映射检查 (兼容这是原本的 calculateRemotePath 逻辑的一部分，但通常 local 模式主要用同步目录)
-                    // 如果用户只用映射而没用同步目录？
-                    // 以前的逻辑是 calculateRemotePath 会处理 local 模式的映射
-                    remoteFilePath = await this.calculateRemotePath(file, activeFile, filePath);
-                }
-            } else {
-                // ===== 笔记路径模式 =====
-                remoteFilePath = await this.calculateRemotePath(file, activeFile, filePath);
+            // 按路径映射选择上传到的服务器
+            const serverId = this.resolveServerId(activeFile, filePath);
+            const client = this.getClient(serverId);
+            if (!this.isServerConfigured(serverId)) {
+                new Notice(`服务器「${this.getServerName(serverId)}」未配置，无法上传。请检查设置。`);
+                return;
             }
 
+            // 剪贴板截图等没有本地路径的 Blob，生成带时间戳的文件名
+            const prepared = await this.prepareUpload(activeFile, filePath, filePath ? file.name : this.generatePastedFileName(file), {
+                data: filePath ? undefined : await file.arrayBuffer(),
+                readData: () => file.arrayBuffer()
+            });
+            let fileName = prepared.fileName;
+            const fileData = prepared.data;
+            const originalSize = prepared.originalSize;
+            const isLocalLink = prepared.isLocalLink;
+            let fileHashes = prepared.hashes;
+            let remoteFilePath = prepared.remotePath;
+            let shouldUpload = !isLocalLink;
+
             // ===== 统一的文件存在性检查 =====
-            // 如果启用了 preferExistingLink 且有有效的远程路径，检查文件是否已存在
-            if (shouldUpload && remoteFilePath && this.settings.preferExistingLink) {
-                if (await this.webdavExists(remoteFilePath)) {
-                    new Notice(`文件已存在于云端: ${file.name}`);
-                    shouldUpload = false;
+            // 如果启用了 preferExistingLink 且有有效的远程路径，根据内容哈希检查文件是否已存在
+            // 服务器无法连接时跳过检查，上传前再补做
+            let offline = !this.connectivity.isOnline(serverId);
+            // 未开启去重检查且连接状态未知或已过期时先探测一次服务器，离线时直接暂存到本地，而不是插入排队的占位链接
+            if (shouldUpload && remoteFilePath && !offline && !this.settings.preferExistingLink && !this.connectivity.isFresh(serverId)) {
+                offline = !await this.connectivity.probe(serverId);
+            }
+            if (shouldUpload && remoteFilePath && this.settings.preferExistingLink && !offline) {
+                fileHashes = fileHashes || await computeFileHashes(filePath, fileData);
+                let resolution: { remotePath: string; upload: boolean } | null;
+                try {
+                    resolution = await this.resolveDuplicate(client, remoteFilePath, fileHashes);
+                } catch (error) {
+                    if (!isNetworkError(error)) throw error;
+                    this.connectivity.reportOffline(serverId);
+                    offline = true;
+                    resolution = { remotePath: remoteFilePath, upload: true };
                 }
+                if (!resolution) {
+                    new Notice('操作已取消');
+                    return;
+                }
+                // 自动重命名时链接文字跟随新文件名
+                if (resolution.upload && resolution.remotePath !== remoteFilePath) {
+                    fileName = path.posix.basename(resolution.remotePath);
+                }
+                remoteFilePath = resolution.remotePath;
+                shouldUpload = resolution.upload;
             }
 
             // 生成并插入链接逻辑中的名称准备
-            let linkTextName = file.name;
+            let linkTextName = fileName;
 
             // 如果开启了重命名确认 Modal，则在此处弹出
             if (this.settings.enableRenameModal) {
                 // 使用 Promise 等待 Modal 结果
                 const userConfirmedName = await new Promise<string | null>((resolve) => {
-                    new RenameModal(this.app, file.name, (result) => {
+                    new RenameModal(this.app, fileName, (result) => {
                         resolve(result);
                     }, () => {
                         resolve(null); // Cancelled
@@ -356,67 +937,250 @@ export default class WebDAVUploaderPlugin extends Plugin {
                 return;
             }
 
-            // 上传处理
-            if (shouldUpload && remoteFilePath) {
-                // 确保远程文件夹存在
-                const remoteFolder = path.posix.dirname(remoteFilePath);
-                if (!await this.webdavExists(remoteFolder)) {
-                    await this.webdavCreateDirectory(remoteFolder);
-                }
-
-                const fileBuffer = await file.arrayBuffer();
-                new Notice(`正在上传 ${file.name} 到 WebDAV...`);
-                await this.webdavPut(remoteFilePath, fileBuffer);
-                new Notice(`上传成功: ${file.name}`);
-            }
-
-            // 生成并插入 WebDAV 链接 (如果上传了或者跳过上传但仍是 WebDAV 链接)
-            if (remoteFilePath) {
-                const baseUrl = this.settings.webdavUrl.endsWith('/') ? this.settings.webdavUrl.slice(0, -1) : this.settings.webdavUrl;
-                const cleanRemoteFilePath = remoteFilePath.startsWith('/') ? remoteFilePath : '/' + remoteFilePath;
-                // 转义路径中的特殊字符
-                const encodedPath = cleanRemoteFilePath.split('/').map(encodeURIComponent).join('/');
-                const linkUrl = `${baseUrl}${encodedPath}`;
+            if (!remoteFilePath) return;
 
-                // 检查是否是图片类型，使用图片语法
-                const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg', '.bmp', '.ico'];
-                const fileExt = path.extname(file.name).toLowerCase();
-                const isImage = imageExtensions.includes(fileExt);
+            // 生成 WebDAV 链接 (上传完成后或跳过上传时插入)
+            const linkText = this.formatLink(remoteFilePath, fileName, linkTextName, client);
 
-                // 使用用户确认的名称，图片使用 ![](url) 语法，其他使用 [](url) 语法
-                const linkText = isImage
-                    ? `![${linkTextName}](${linkUrl})`
-                    : `[${linkTextName}](${linkUrl})`;
+            if (!shouldUpload) {
+                view.editor.replaceSelection(await this.toPublicLink(client, remoteFilePath, linkText) + '\n');
+                return;
+            }
 
-                const editor = view.editor;
-                editor.replaceSelection(linkText + '\n');
+            if (offline) {
+                await this.stageOfflineUpload(file, fileData, {
+                    fileName,
+                    remotePath: remoteFilePath,
+                    serverId,
+                    notePath: activeFile.path,
+                    linkText,
+                    sha256: fileHashes?.sha256,
+                    originalSize
+                }, view);
+                return;
             }
 
+            // 加入后台上传队列，先插入占位链接，上传完成后替换为真实链接
+            const item = await this.uploadQueue.enqueue({
+                fileName,
+                remotePath: remoteFilePath,
+                serverId,
+                notePath: activeFile.path,
+                linkText,
+                localPath: fileData ? undefined : filePath,
+                data: fileData,
+                sha256: fileHashes?.sha256,
+                originalSize
+            });
+            view.editor.replaceSelection(item.placeholder + '\n');
+
         } catch (error) {
             console.error('WebDAV Upload Error:', error);
             new Notice(`上传失败: ${error.message}`);
         }
     }
 
+    // 离线时把文件暂存到仓库中并插入本地嵌入，恢复连接后上传并替换为 WebDAV 链接
+    async stageOfflineUpload(file: File, fileData: ArrayBuffer | undefined, upload: NewUploadItem, view: MarkdownView) {
+        const adapter = this.app.vault.adapter;
+        const folder = normalizePath(this.settings.offlineFolder || DEFAULT_SETTINGS.offlineFolder);
+        if (!await adapter.exists(folder)) {
+            await adapter.mkdir(folder);
+        }
+
+        const data = fileData || await file.arrayBuffer();
+        const stagedPath = `${folder}/${moment().format('YYYYMMDDHHmmss')}-${upload.fileName}`;
+        await adapter.writeBinary(stagedPath, data);
+
+        const embed = upload.linkText.startsWith('!') ? `![[${stagedPath}]]` : `[[${stagedPath}]]`;
+        const item = await this.uploadQueue.enqueue({
+            ...upload,
+            data,
+            stagedPath,
+            placeholder: embed,
+            deferred: true
+        });
+        view.editor.replaceSelection(item.placeholder + '\n');
+        new Notice(`无法连接服务器「${this.getServerName(upload.serverId || '')}」，文件已暂存到本地，恢复连接后自动上传`);
+    }
+
+    // 离线加入队列的条目在上传前补做去重检查，云端已有相同文件时直接链接
+    async resolveDeferred(item: UploadQueueItem): Promise<boolean> {
+        if (!this.settings.preferExistingLink) return true;
+
+        const client = this.getClient(item.serverId);
+        const data = item.stagedPath
+            ? await this.app.vault.adapter.readBinary(item.stagedPath)
+            : undefined;
+        const hashes = await computeFileHashes(item.localPath, data);
+        const resolution = await this.resolveDuplicate(client, item.remotePath, hashes, false);
+        if (!resolution) return true;
+
+        if (resolution.remotePath !== item.remotePath) {
+            const fromUrl = client.getUrl(item.remotePath);
+            item.linkText = item.linkText.replace(fromUrl, () => client.getUrl(resolution.remotePath));
+            item.remotePath = resolution.remotePath;
+        }
+        item.sha256 = hashes.sha256;
+        return resolution.upload;
+    }
+
+    isServerOnline(serverId?: string): boolean {
+        return this.connectivity.isOnline(serverId || '');
+    }
+
+    reportOffline(serverId?: string) {
+        this.connectivity.reportOffline(serverId || '');
+    }
+
+    // 根据内容哈希决定如何处理云端已存在的文件，返回 null 表示用户取消
+    // 批量操作时 interactive 为 false，"每次询问" 按自动重命名处理
+    async resolveDuplicate(client: WebDAVClient, remotePath: string, hashes: FileHashes, interactive = true): Promise<{ remotePath: string; upload: boolean } | null> {
+        const remoteUrl = client.getUrl(remotePath);
+
+        // 相同内容的文件已上传到同一服务器（可能使用了不同的文件名）
+        const indexedUrl = this.settings.hashIndex[hashes.sha256];
+        const indexedPath = indexedUrl ? client.toRemotePath(indexedUrl) : null;
+        if (indexedPath && indexedPath !== remotePath && await client.exists(indexedPath)) {
+            new Notice(`相同内容的文件已存在于云端: ${indexedPath}`);
+            return { remotePath: indexedPath, upload: false };
+        }
+
+        const remote = await client.stat(remotePath);
+        if (!remote) return { remotePath, upload: true };
+
+        let sameContent = compareWithRemote(hashes, remote);
+        let verified = true;
+        if (sameContent === null) {
+            // 服务器未提供校验值时参考本地索引；都无法判断时视为内容不同，交给「同名文件内容不同时」处理
+            const indexedHash = Object.keys(this.settings.hashIndex).find(hash => this.settings.hashIndex[hash] === remoteUrl);
+            sameContent = indexedHash === hashes.sha256;
+            verified = !!indexedHash;
+        }
+
+        if (sameContent) {
+            new Notice(`文件已存在于云端: ${path.posix.basename(remotePath)}`);
+            await this.recordHash(hashes.sha256, remoteUrl);
+            return { remotePath, upload: false };
+        }
+
+        // 同名但内容不同，或无法确认内容是否相同
+        let action = this.settings.duplicateAction;
+        if (action === 'ask' && !interactive) {
+            action = 'rename';
+        } else if (action === 'ask') {
+            const choice = await new Promise<DuplicateAction | null>((resolve) => {
+                new DuplicateModal(this.app, remotePath, verified, resolve).open();
+            });
+            if (!choice) return null;
+            action = choice;
+        }
+
+        switch (action) {
+            case 'link':
+                return { remotePath, upload: false };
+            case 'overwrite':
+                return { remotePath, upload: true };
+            default:
+                return { remotePath: await this.findAvailablePath(client, remotePath), upload: true };
+        }
+    }
+
+    // 为同名文件生成 "name (1).png" 形式的可用路径
+    async findAvailablePath(client: WebDAVClient, remotePath: string): Promise<string> {
+        const dir = path.posix.dirname(remotePath);
+        const ext = path.posix.extname(remotePath);
+        const base = path.posix.basename(remotePath, ext);
+
+        for (let i = 1; i < 1000; i++) {
+            const candidate = path.posix.join(dir, `${base} (${i})${ext}`);
+            if (!await client.exists(candidate)) return candidate;
+        }
+        throw new Error(`无法为 ${remotePath} 找到可用的文件名`);
+    }
+
+    // 记录文件哈希，同一远程文件只保留最新内容的哈希
+    async recordHash(sha256: string, url: string) {
+        for (const hash of Object.keys(this.settings.hashIndex)) {
+            if (this.settings.hashIndex[hash] === url) delete this.settings.hashIndex[hash];
+        }
+        this.settings.hashIndex[sha256] = url;
+        await this.saveSettings();
+    }
+
+    // 匹配的映射可覆盖全局的图片处理设置；与计算远程路径相同，文件路径模式下按文件的本地路径匹配，没有本地路径时按笔记匹配
+    getImageProcessingSettings(note: TFile, filePath: string): ImageProcessingSettings {
+        const mapping = this.settings.pathMode === 'local' && filePath ? this.matchLocalMapping(filePath) : this.matchNoteMapping(note);
+        return mapping?.imageProcessing || this.settings.imageProcessing;
+    }
+
+    // 远程文件被移动后，更新哈希索引和引用记录中的地址
+    onRemoteMoved(fromUrl: string, toUrl: string) {
+        for (const hash of Object.keys(this.settings.hashIndex)) {
+            if (this.settings.hashIndex[hash] === fromUrl) this.settings.hashIndex[hash] = toUrl;
+        }
+        if (this.settings.referenceHistory[fromUrl]) {
+            this.settings.referenceHistory[toUrl] = this.settings.referenceHistory[fromUrl];
+            delete this.settings.referenceHistory[fromUrl];
+        }
+        // 共享按文件记录，移动后公开链接仍然有效
+        for (const shareUrl of Object.keys(this.settings.shareLinks)) {
+            if (this.settings.shareLinks[shareUrl] === fromUrl) this.settings.shareLinks[shareUrl] = toUrl;
+        }
+    }
+
+    // 远程文件被删除或移到回收站后，不再用它作为去重结果
+    async forgetRemoteFile(url: string) {
+        for (const hash of Object.keys(this.settings.hashIndex)) {
+            if (this.settings.hashIndex[hash] === url) delete this.settings.hashIndex[hash];
+        }
+        for (const shareUrl of Object.keys(this.settings.shareLinks)) {
+            if (this.settings.shareLinks[shareUrl] === url) delete this.settings.shareLinks[shareUrl];
+        }
+        await this.saveSettings();
+    }
+
+    // 上传队列完成一个任务后的回调，开启公开链接时把 item.linkText 替换为公开链接
+    async onUploadComplete(item: UploadQueueItem) {
+        this.connectivity.reportOnline(item.serverId || '');
+        const client = this.getClient(item.serverId);
+        const url = client.getUrl(item.remotePath);
+        if (item.sha256) await this.recordHash(item.sha256, url);
+        // 从远程文件浏览器上传的文件不关联笔记，也不需要生成链接
+        if (!item.notePath) return;
+        this.settings.referenceHistory[url] = item.notePath;
+        await this.saveSettings();
+        item.linkText = await this.toPublicLink(client, item.remotePath, item.linkText);
+    }
+
+    // 辅助方法：生成插入笔记的链接，图片及可预览的附件（PDF、音视频、文本）使用 ![](url) 语法，其他使用 [](url) 语法
+    formatLink(remoteFilePath: string, fileName: string, linkTextName: string, client = this.client): string {
+        // 转义路径中的特殊字符
+        const linkUrl = client.getUrl(remoteFilePath);
+
+        // 图片、PDF、音视频使用嵌入语法以便在笔记中预览；文本文件保持普通链接
+        const previewType = getPreviewType(fileName);
+        return isImageFile(fileName) || (previewType && previewType !== 'text')
+            ? `![${linkTextName}](${linkUrl})`
+            : `[${linkTextName}](${linkUrl})`;
+    }
+
+    // 辅助方法：为没有本地路径的粘贴内容生成文件名，例如 "Pasted image 20240101120000.png"
+    generatePastedFileName(file: File): string {
+        let ext = getExtensionForMime(file.type) || path.extname(file.name).slice(1).toLowerCase();
+        if (!ext) ext = 'bin';
+
+        const prefix = file.type.startsWith('image/') ? 'Pasted image' : 'Pasted file';
+        return `${prefix} ${moment().format('YYYYMMDDHHmmss')}.${ext}`;
+    }
+
     // 辅助方法：根据路径模式计算远程路径
-    async calculateRemotePath(file: File, activeFile: TFile, filePath: string): Promise<string> {
+    async calculateRemotePath(fileName: string, activeFile: TFile, filePath: string): Promise<string> {
         let remoteFolder: string;
 
         if (this.settings.pathMode === 'local' && filePath) {
-            // 使用文件本地路径模式
-            const fileDir = path.dirname(filePath).replace(/\\/g, '/');
-
-            // 检查是否匹配路径映射
-            let bestMatch: PathMapping | null = null;
-            for (const mapping of this.settings.pathMappings) {
-                const normalizedMapping = mapping.localPath.replace(/\\/g, '/');
-
-                if (fileDir.includes(normalizedMapping)) {
-                    if (!bestMatch || mapping.localPath.length > bestMatch.localPath.length) {
-                        bestMatch = mapping;
-                    }
-                }
-            }
+            // 使用文件本地路径模式，检查是否匹配路径映射
+            const bestMatch = this.matchLocalMapping(filePath);
 
             if (bestMatch) {
                 remoteFolder = bestMatch.remotePath;
@@ -424,43 +1188,110 @@ export default class WebDAVUploaderPlugin extends Plugin {
                 remoteFolder = this.settings.rootFolder;
             }
         } else {
-            // 使用笔记路径模式（原有逻辑）
-            const noteParentPath = activeFile.parent ? activeFile.parent.path : '/';
-
-            let bestMatch: PathMapping | null = null;
-            for (const mapping of this.settings.pathMappings) {
-                if (noteParentPath.startsWith(mapping.localPath)) {
-                    if (!bestMatch || mapping.localPath.length > bestMatch.localPath.length) {
-                        bestMatch = mapping;
-                    }
+            // 使用笔记路径模式
+            remoteFolder = this.resolveNoteFolder(activeFile, fileName).remoteFolder;
+        }
+
+        // Fix remoteFolder to always start with /
+        if (!remoteFolder.startsWith('/')) remoteFolder = '/' + remoteFolder;
+
+        return path.posix.join(remoteFolder, fileName);
+    }
+
+    // 文件路径模式：匹配路径最长（最精确）的映射
+    matchLocalMapping(filePath: string): PathMapping | null {
+        const fileDir = path.dirname(filePath).replace(/\\/g, '/');
+
+        let bestMatch: PathMapping | null = null;
+        for (const mapping of this.settings.pathMappings) {
+            const normalizedMapping = mapping.localPath.replace(/\\/g, '/');
+
+            if (fileDir.includes(normalizedMapping)) {
+                if (!bestMatch || mapping.localPath.length > bestMatch.localPath.length) {
+                    bestMatch = mapping;
                 }
             }
+        }
+        return bestMatch;
+    }
 
-            if (bestMatch) {
-                const relativePath = noteParentPath.slice(bestMatch.localPath.length);
-                const cleanRelative = relativePath.replace(/^[\/\\]/, '').replace(/[\/\\]/g, '/');
-                const cleanRemote = bestMatch.remotePath.replace(/\/$/, '');
-                remoteFolder = `${cleanRemote}/${cleanRelative}`;
-            } else {
-                remoteFolder = path.posix.join(this.settings.rootFolder, noteParentPath);
+    // 笔记路径模式：匹配路径最长（最精确）的映射；notePath 可指定笔记重命名前的路径
+    matchNoteMapping(note: TFile, notePath = note.path): PathMapping | null {
+        const noteParentPath = getParentPath(notePath);
+
+        let bestMatch: PathMapping | null = null;
+        for (const mapping of this.settings.pathMappings) {
+            if (!mapping.localPath) continue;
+            // "/" 映射整个仓库，其他映射需匹配完整的文件夹层级
+            const matches = mapping.localPath === '/'
+                || noteParentPath === mapping.localPath
+                || noteParentPath.startsWith(mapping.localPath + '/');
+            if (matches && (!bestMatch || mapping.localPath.length > bestMatch.localPath.length)) {
+                bestMatch = mapping;
             }
         }
+        return bestMatch;
+    }
 
-        // Fix remoteFolder to always start with /
-        if (!remoteFolder.startsWith('/')) remoteFolder = '/' + remoteFolder;
+    // 笔记路径模式：按匹配的映射和文件夹模板生成远程文件夹
+    resolveNoteFolder(note: TFile, fileName: string, notePath = note.path): { remoteFolder: string; mapping: PathMapping | null } {
+        const noteParentPath = getParentPath(notePath);
+        const bestMatch = this.matchNoteMapping(note, notePath);
+
+        let vaultFolder = noteParentPath;
+        let baseFolder = this.settings.rootFolder;
+        let template = this.settings.folderTemplate;
+        if (bestMatch) {
+            vaultFolder = bestMatch.localPath === '/' ? noteParentPath : noteParentPath.slice(bestMatch.localPath.length);
+            baseFolder = bestMatch.remotePath;
+            template = bestMatch.folderTemplate || template;
+        }
 
-        return path.posix.join(remoteFolder, file.name);
+        const relativeFolder = renderFolderTemplate(template, {
+            vaultFolder,
+            noteName: path.posix.basename(notePath, '.' + note.extension),
+            fileName,
+            frontmatter: this.app.metadataCache.getFileCache(note)?.frontmatter
+        });
+
+        let remoteFolder = path.posix.join(baseFolder || '/', relativeFolder);
+        if (!remoteFolder.startsWith('/')) remoteFolder = '/' + remoteFolder;
+        return { remoteFolder, mapping: bestMatch };
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        // 默认值中的数组和对象（上传队列、哈希索引、图片处理规则等）运行时会被直接修改，先深拷贝一份，避免改动模块级的默认设置
+        const defaults: WebDAVUploaderSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+        this.settings = Object.assign(defaults, await this.loadData());
+        const hasPlainTextPasswords = this.credentials.load();
+        this.initializeClient();
+
+        // 旧版本按默认服务器的远程路径记录，统一转换为 URL 以区分不同服务器
+        const { hashIndex, referenceHistory } = this.settings;
+        for (const hash of Object.keys(hashIndex)) {
+            if (hashIndex[hash].startsWith('/')) hashIndex[hash] = this.client.getUrl(hashIndex[hash]);
+        }
+        for (const remotePath of Object.keys(referenceHistory)) {
+            if (!remotePath.startsWith('/')) continue;
+            referenceHistory[this.client.getUrl(remotePath)] = referenceHistory[remotePath];
+            delete referenceHistory[remotePath];
+        }
+
+        // 旧版本以明文保存的密码立即加密，并从 data.json 中移除
+        if (hasPlainTextPasswords) await this.saveSettings();
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.saveData(this.credentials.seal(this.settings));
+        this.initializeClient();
     }
 }
 
+// 仓库内路径的父文件夹，根目录返回空字符串
+function getParentPath(vaultPath: string): string {
+    const parent = path.posix.dirname(vaultPath);
+    return parent === '.' || parent === '/' ? '' : parent;
+}
 
 class RenameModal extends Modal {
     result: string;
@@ -528,6 +1359,173 @@ class RenameModal extends Modal {
     }
 }
 
+class DuplicateModal extends Modal {
+    remotePath: string;
+    verified: boolean; // 为 false 时服务器未提供校验值，无法确认内容是否相同
+    onChoose: (action: DuplicateAction | null) => void;
+    isHandled: boolean = false;
+
+    constructor(app: App, remotePath: string, verified: boolean, onChoose: (action: DuplicateAction | null) => void) {
+        super(app);
+        this.remotePath = remotePath;
+        this.verified = verified;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: '云端已有同名文件' });
+        contentEl.createEl('p', {
+            text: this.verified
+                ? `${this.remotePath} 已存在，但内容与当前文件不同。`
+                : `${this.remotePath} 已存在，服务器未提供校验值，无法确认内容是否与当前文件相同。`
+        });
+
+        const choose = (action: DuplicateAction | null) => {
+            this.isHandled = true;
+            this.onChoose(action);
+            this.close();
+        };
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('取消')
+                .onClick(() => choose(null)))
+            .addButton(btn => btn
+                .setButtonText('链接到已有文件')
+                .onClick(() => choose('link')))
+            .addButton(btn => btn
+                .setButtonText('覆盖')
+                .setWarning()
+                .onClick(() => choose('overwrite')))
+            .addButton(btn => btn
+                .setButtonText('自动重命名')
+                .setCta()
+                .onClick(() => choose('rename')));
+    }
+
+    onClose() {
+        if (!this.isHandled) {
+            this.onChoose(null);
+        }
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// 按图片格式渲染图片处理设置，全局设置与映射单独设置共用
+function renderImageProcessingSettings(containerEl: HTMLElement, settings: ImageProcessingSettings, save: () => Promise<void>) {
+    for (const format of Object.keys(IMAGE_FORMAT_LABELS) as ImageFormat[]) {
+        const rule = settings[format];
+        containerEl.createEl('h4', { text: IMAGE_FORMAT_LABELS[format] });
+
+        new Setting(containerEl)
+            .setName('启用处理')
+            .addToggle(toggle => toggle
+                .setValue(rule.enabled)
+                .onChange(async (value) => {
+                    rule.enabled = value;
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('最大宽度 / 高度 (px)')
+            .setDesc('超过时按比例缩小，0 表示不限制')
+            .addText(text => text
+                .setPlaceholder('宽度')
+                .setValue(String(rule.maxWidth))
+                .onChange(async (value) => {
+                    rule.maxWidth = Math.max(0, parseInt(value, 10) || 0);
+                    await save();
+                }))
+            .addText(text => text
+                .setPlaceholder('高度')
+                .setValue(String(rule.maxHeight))
+                .onChange(async (value) => {
+                    rule.maxHeight = Math.max(0, parseInt(value, 10) || 0);
+                    await save();
+                }));
+
+        new Setting(containerEl)
+            .setName('压缩质量')
+            .setDesc('JPEG / WebP 输出质量')
+            .addSlider(slider => slider
+                .setLimits(10, 100, 5)
+                .setValue(rule.quality)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    rule.quality = value;
+                    await save();
+                }));
+
+        if (format !== 'webp') {
+            new Setting(containerEl)
+                .setName('转换为 WebP')
+                .addToggle(toggle => toggle
+                    .setValue(rule.convertToWebp)
+                    .onChange(async (value) => {
+                        rule.convertToWebp = value;
+                        await save();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('去除 EXIF / GPS 信息')
+            .addToggle(toggle => toggle
+                .setValue(rule.stripMetadata)
+                .onChange(async (value) => {
+                    rule.stripMetadata = value;
+                    await save();
+                }));
+    }
+}
+
+class ImageProcessingModal extends Modal {
+    plugin: WebDAVUploaderPlugin;
+    mapping: PathMapping;
+    onDone: () => void;
+
+    constructor(app: App, plugin: WebDAVUploaderPlugin, mapping: PathMapping, onDone: () => void) {
+        super(app);
+        this.plugin = plugin;
+        this.mapping = mapping;
+        this.onDone = onDone;
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: `图片处理: ${this.mapping.localPath || '(未选择)'}` });
+
+        new Setting(contentEl)
+            .setName('使用全局设置')
+            .setDesc('关闭后可为该映射单独设置图片处理规则')
+            .addToggle(toggle => toggle
+                .setValue(!this.mapping.imageProcessing)
+                .onChange(async (value) => {
+                    this.mapping.imageProcessing = value
+                        ? undefined
+                        : JSON.parse(JSON.stringify(this.plugin.settings.imageProcessing));
+                    await this.plugin.saveSettings();
+                    this.render();
+                }));
+
+        if (this.mapping.imageProcessing) {
+            renderImageProcessingSettings(contentEl, this.mapping.imageProcessing, () => this.plugin.saveSettings());
+        }
+    }
+
+    onClose() {
+        this.onDone();
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
 class WebDAVUploaderSettingTab extends PluginSettingTab {
     plugin: WebDAVUploaderPlugin;
 
@@ -539,45 +1537,138 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
     display(): void {
         const { containerEl } = this;
 
-        containerEl.empty();
+        containerEl.empty();
+
+        containerEl.createEl('h2', { text: 'WebDAV 上传设置' });
+
+        // 基础连接设置
+        new Setting(containerEl)
+            .setName('WebDAV 地址')
+            .setDesc('WebDAV 服务器的完整 URL，插件将以此作为根目录进行所有操作')
+            .addText(text => text
+                .setPlaceholder('https://dav.example.com/')
+                .setValue(this.plugin.settings.webdavUrl)
+                .onChange(async (value) => {
+                    this.plugin.settings.webdavUrl = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displayAuthSettings(containerEl, this.plugin.settings);
+
+        // 密码保存方式，并说明密码实际保存在哪里
+        const { credentials } = this.plugin;
+        const storageSetting = new Setting(containerEl)
+            .setName('密码保存方式')
+            .setDesc(credentials.describe())
+            .addDropdown(dropdown => {
+                (Object.keys(CREDENTIAL_STORAGE_LABELS) as CredentialStorage[]).forEach(mode => {
+                    if (mode === 'keychain' && !credentials.isKeychainAvailable() && this.plugin.settings.credentialStorage !== 'keychain') return;
+                    dropdown.addOption(mode, CREDENTIAL_STORAGE_LABELS[mode]);
+                });
+                dropdown
+                    .setValue(this.plugin.settings.credentialStorage)
+                    .onChange(async (value) => {
+                        const mode = value as CredentialStorage;
+                        const switchTo = async (passphrase?: string) => {
+                            credentials.setMode(mode, passphrase);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        };
+
+                        if (credentials.needsUnlock() && credentials.hasEncryptedPasswords()) {
+                            new Notice('请先输入主密码解锁凭据');
+                            this.display();
+                            return;
+                        }
+                        if (credentials.hasUndecryptable() && !window.confirm('本机无法解密的密码将被清除，需要重新输入。确定要切换吗？')) {
+                            this.display();
+                            return;
+                        }
+                        if (mode === 'plain' && !window.confirm('密码将以明文保存在 data.json 中，并随仓库同步和备份。确定要切换吗？')) {
+                            this.display();
+                            return;
+                        }
+                        if (mode === 'passphrase') {
+                            new PassphraseModal(this.app, 'set', (passphrase) => {
+                                switchTo(passphrase);
+                                return true;
+                            }, () => this.display()).open();
+                            return;
+                        }
+                        await switchTo();
+                    });
+            });
+        if (credentials.needsUnlock()) {
+            storageSetting.addButton(btn => btn
+                .setButtonText(credentials.hasEncryptedPasswords() ? '解锁' : '设置主密码')
+                .setCta()
+                .onClick(() => this.plugin.promptUnlock(() => this.display())));
+        }
+
+        // 其他服务器
+        containerEl.createEl('h3', { text: '其他服务器' });
+        containerEl.createEl('p', {
+            text: '上面配置的是默认服务器。添加其他服务器后，可在每条路径映射或本地同步文件夹中选择上传到哪个服务器；显示图片时按链接地址自动匹配对应服务器的凭据。',
+            attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+        });
+
+        this.plugin.settings.servers.forEach((server, index) => {
+            const serverDiv = containerEl.createDiv({
+                attr: { style: 'padding: 0 10px; margin-bottom: 10px; border: 1px solid var(--background-modifier-border); border-radius: 4px;' }
+            });
 
-        containerEl.createEl('h2', { text: 'WebDAV 上传设置' });
+            new Setting(serverDiv)
+                .setName('名称')
+                .addText(text => text
+                    .setPlaceholder('例如: 公司 Nextcloud')
+                    .setValue(server.name)
+                    .onChange(async (value) => {
+                        server.name = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addButton(btn => btn
+                    .setButtonText('删除')
+                    .setWarning()
+                    .onClick(async () => {
+                        if (!window.confirm(`确定要删除服务器「${server.name}」吗？使用它的映射将改为上传到默认服务器。`)) return;
+                        this.plugin.settings.servers.splice(index, 1);
+                        this.plugin.settings.pathMappings.forEach(mapping => {
+                            if (mapping.serverId === server.id) mapping.serverId = '';
+                        });
+                        if (this.plugin.settings.syncFolderServerId === server.id) this.plugin.settings.syncFolderServerId = '';
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
 
-        // 基础连接设置
-        new Setting(containerEl)
-            .setName('WebDAV 地址')
-            .setDesc('WebDAV 服务器的完整 URL，插件将以此作为根目录进行所有操作')
-            .addText(text => text
-                .setPlaceholder('https://dav.example.com/')
-                .setValue(this.plugin.settings.webdavUrl)
-                .onChange(async (value) => {
-                    this.plugin.settings.webdavUrl = value;
-                    await this.plugin.saveSettings();
-                }));
+            new Setting(serverDiv)
+                .setName('WebDAV 地址')
+                .addText(text => text
+                    .setPlaceholder('https://nas.example.com/dav/')
+                    .setValue(server.webdavUrl)
+                    .onChange(async (value) => {
+                        server.webdavUrl = value;
+                        await this.plugin.saveSettings();
+                    }));
 
-        new Setting(containerEl)
-            .setName('用户名')
-            .setDesc('WebDAV 用户名')
-            .addText(text => text
-                .setValue(this.plugin.settings.username)
-                .onChange(async (value) => {
-                    this.plugin.settings.username = value;
-                    await this.plugin.saveSettings();
-                }));
+            this.displayAuthSettings(serverDiv, server);
+        });
 
         new Setting(containerEl)
-            .setName('密码')
-            .setDesc('WebDAV 密码')
-            .addText(text => text
-                .setPlaceholder('密码')
-                .setValue(this.plugin.settings.password)
-                .onChange(async (value) => {
-                    this.plugin.settings.password = value;
+            .addButton(btn => btn
+                .setButtonText('+ 添加服务器')
+                .onClick(async () => {
+                    this.plugin.settings.servers.push({
+                        id: Date.now().toString(36) + Math.random().toString(36).slice(2, 8),
+                        name: `服务器 ${this.plugin.settings.servers.length + 1}`,
+                        webdavUrl: '',
+                        authMode: 'basic',
+                        username: '',
+                        password: '',
+                        authHeaderName: ''
+                    });
                     await this.plugin.saveSettings();
+                    this.display(); // 映射中的服务器选项随之更新
                 }));
-        const passwordSetting = containerEl.lastElementChild;
-        const passwordInput = passwordSetting?.querySelector('input');
-        if (passwordInput) passwordInput.type = 'password';
 
         // 上传行为配置（提前）
         containerEl.createEl('h3', { text: '上传行为' });
@@ -597,17 +1688,34 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
 
         new Setting(containerEl)
             .setName('优先使用已存在文件')
-            .setDesc('如果文件已存在于云端，直接插入链接而不重新上传')
+            .setDesc('根据文件内容 (SHA-256) 判断是否已存在于云端，内容相同时直接插入链接而不重新上传')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.preferExistingLink)
                 .onChange(async (value) => {
                     this.plugin.settings.preferExistingLink = value;
                     await this.plugin.saveSettings();
+                    this.display();
                 }));
 
+        if (this.plugin.settings.preferExistingLink) {
+            new Setting(containerEl)
+                .setName('同名文件内容不同时')
+                .setDesc('云端已有同名文件但内容不同（或服务器未提供校验值、无法确认内容相同）时的处理方式')
+                .addDropdown(dropdown => dropdown
+                    .addOption('ask', '每次询问')
+                    .addOption('rename', '自动重命名，例如 name (1).png')
+                    .addOption('overwrite', '覆盖云端文件')
+                    .addOption('link', '链接到已有文件')
+                    .setValue(this.plugin.settings.duplicateAction)
+                    .onChange(async (value) => {
+                        this.plugin.settings.duplicateAction = value as DuplicateAction;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
         new Setting(containerEl)
             .setName('拖拽时确认链接文字')
-            .setDesc('拖拽文件时弹出窗口，允许自定义插入笔记本中的链接文字（默认为文件名）')
+            .setDesc('拖拽或粘贴文件时弹出窗口，允许自定义插入笔记本中的链接文字（默认为文件名）')
             .addToggle(toggle => toggle
                 .setValue(this.plugin.settings.enableRenameModal)
                 .onChange(async (value) => {
@@ -615,11 +1723,130 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        const templateSetting = new Setting(containerEl)
+            .setName('文件名模板')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_FILENAME_TEMPLATE)
+                .setValue(this.plugin.settings.fileNameTemplate)
+                .onChange(async (value) => {
+                    this.plugin.settings.fileNameTemplate = value || DEFAULT_FILENAME_TEMPLATE;
+                    await this.plugin.saveSettings();
+                    updateTemplatePreview();
+                }));
+        const templateDesc = templateSetting.descEl;
+        templateDesc.createDiv({ text: '上传后的文件名，可用变量：{name} {ext} {note} {date:YYYYMMDD} {time} {hash:8} {uuid}' });
+        const templatePreviewEl = templateDesc.createDiv();
+        const updateTemplatePreview = () => {
+            const example = renderFileNameTemplate(this.plugin.settings.fileNameTemplate, {
+                originalName: 'photo.png',
+                noteName: 'Note',
+                hash: 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+            });
+            templatePreviewEl.setText(`示例: photo.png → ${example}`);
+        };
+        updateTemplatePreview();
+
+        new Setting(containerEl)
+            .setName('同时上传数量')
+            .setDesc('后台上传队列中同时进行的上传任务数')
+            .addSlider(slider => slider
+                .setLimits(1, 6, 1)
+                .setValue(this.plugin.settings.uploadConcurrency)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.uploadConcurrency = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('失败重试次数')
+            .setDesc('上传失败后自动重试的次数，重试间隔逐次翻倍')
+            .addSlider(slider => slider
+                .setLimits(0, 10, 1)
+                .setValue(this.plugin.settings.uploadMaxRetries)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.uploadMaxRetries = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('离线暂存文件夹')
+            .setDesc('无法连接服务器时，文件先保存到仓库中的这个文件夹并以本地嵌入插入笔记，恢复连接后自动上传并替换为 WebDAV 链接')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.offlineFolder)
+                .setValue(this.plugin.settings.offlineFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.offlineFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('大文件分块上传')
+            .setDesc('大文件直接从磁盘分块读取上传，中断后可从最后确认的分块继续。自动：仅对 Nextcloud 地址启用 Nextcloud 分块；Content-Range 需服务器支持')
+            .addDropdown(dropdown => dropdown
+                .addOption('auto', '自动')
+                .addOption('nextcloud', 'Nextcloud 分块 v2')
+                .addOption('content-range', 'Content-Range 分段 PUT')
+                .addOption('off', '关闭')
+                .setValue(this.plugin.settings.chunkedUploadMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.chunkedUploadMode = value as ChunkedUploadMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('分块上传阈值 (MB)')
+            .setDesc('超过该大小的文件使用分块上传')
+            .addText(text => text
+                .setPlaceholder('50')
+                .setValue(String(this.plugin.settings.chunkedUploadThreshold))
+                .onChange(async (value) => {
+                    const threshold = parseInt(value, 10);
+                    if (isNaN(threshold) || threshold <= 0) return;
+                    this.plugin.settings.chunkedUploadThreshold = threshold;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('分块大小 (MB)')
+            .setDesc('每个分块的大小，Nextcloud 要求除最后一块外不小于 5 MB')
+            .addText(text => text
+                .setPlaceholder('10')
+                .setValue(String(this.plugin.settings.chunkSize))
+                .onChange(async (value) => {
+                    const size = parseInt(value, 10);
+                    if (isNaN(size) || size <= 0) return;
+                    this.plugin.settings.chunkSize = size;
+                    await this.plugin.saveSettings();
+                }));
+
         // 根据模式显示不同的配置
         if (this.plugin.settings.pathMode === 'note') {
             // 笔记路径模式：显示路径映射
             containerEl.createEl('h3', { text: '笔记路径映射 (必填)' });
 
+            new Setting(containerEl)
+                .setName('文件夹模板')
+                .setDesc('远程文件夹的生成规则，相对于匹配的映射路径。可用变量：{vaultFolder} {noteName} {year} {month} {day} {date:YYYY-MM} {fileType} {fm.字段}。例如 {vaultFolder}/{noteName} 为每篇笔记创建子文件夹')
+                .addText(text => text
+                    .setPlaceholder(DEFAULT_FOLDER_TEMPLATE)
+                    .setValue(this.plugin.settings.folderTemplate)
+                    .onChange(async (value) => {
+                        this.plugin.settings.folderTemplate = value || DEFAULT_FOLDER_TEMPLATE;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('重命名时同步移动远程附件')
+                .setDesc('笔记或文件夹重命名、移动后，确认并将仍位于旧位置对应文件夹中的附件移动到新位置，同时改写所有引用它们的链接')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.syncRemoteOnRename)
+                    .onChange(async (value) => {
+                        this.plugin.settings.syncRemoteOnRename = value;
+                        await this.plugin.saveSettings();
+                    }));
+
             const mappingsContainer = containerEl.createDiv();
 
             const renderMappings = () => {
@@ -678,6 +1905,42 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     };
 
+                    // 目标服务器（只有一个服务器时不显示）
+                    if (this.plugin.settings.servers.length > 0) {
+                        const serverSelect = div.createEl('select', {
+                            attr: { style: 'padding: 6px; border-radius: 4px; border: 1px solid var(--background-modifier-border);' }
+                        });
+                        this.plugin.getServerProfiles().forEach(server => {
+                            serverSelect.createEl('option', { text: server.name, value: server.id });
+                        });
+                        serverSelect.value = mapping.serverId || '';
+                        serverSelect.onchange = async () => {
+                            this.plugin.settings.pathMappings[index].serverId = serverSelect.value;
+                            await this.plugin.saveSettings();
+                        };
+                    }
+
+                    // 文件夹模板输入（可选）
+                    const templateInput = div.createEl('input', {
+                        type: 'text',
+                        value: mapping.folderTemplate || '',
+                        placeholder: '文件夹模板 (留空使用全局)',
+                        attr: { style: 'flex: 1; padding: 6px;' }
+                    });
+                    templateInput.onchange = async () => {
+                        this.plugin.settings.pathMappings[index].folderTemplate = templateInput.value;
+                        await this.plugin.saveSettings();
+                    };
+
+                    // 图片处理设置按钮
+                    const imageBtn = div.createEl('button', {
+                        text: mapping.imageProcessing ? '🖼️*' : '🖼️',
+                        attr: { style: 'padding: 4px 8px;', title: '图片处理设置' }
+                    });
+                    imageBtn.onclick = () => {
+                        new ImageProcessingModal(this.app, this.plugin, mapping, () => renderMappings()).open();
+                    };
+
                     // 删除按钮
                     const delBtn = div.createEl('button', { text: '✕', attr: { style: 'padding: 4px 8px;' } });
                     delBtn.onclick = async () => {
@@ -733,32 +1996,273 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
                         this.plugin.settings.remoteSyncFolder = value;
                         await this.plugin.saveSettings();
                     }));
+
+            if (this.plugin.settings.servers.length > 0) {
+                new Setting(containerEl)
+                    .setName('同步文件夹所在的服务器')
+                    .setDesc('同步文件夹内的文件将链接到该服务器')
+                    .addDropdown(dropdown => {
+                        this.plugin.getServerProfiles().forEach(server => dropdown.addOption(server.id, server.name));
+                        dropdown
+                            .setValue(this.plugin.settings.syncFolderServerId)
+                            .onChange(async (value) => {
+                                this.plugin.settings.syncFolderServerId = value;
+                                await this.plugin.saveSettings();
+                            });
+                    });
+            }
         }
 
+        // 下载回仓库
+        containerEl.createEl('h3', { text: '下载到仓库' });
+
+        new Setting(containerEl)
+            .setName('附件保存文件夹')
+            .setDesc('使用「下载 WebDAV 附件到仓库」命令时文件保存的位置，留空则使用 Obsidian 的附件位置设置')
+            .addText(text => text
+                .setPlaceholder('attachments')
+                .setValue(this.plugin.settings.downloadFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.downloadFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        // 孤立附件清理
+        containerEl.createEl('h3', { text: '孤立附件' });
+
+        new Setting(containerEl)
+            .setName('归档文件夹')
+            .setDesc('「查找孤立的 WebDAV 附件」中移到归档的文件保存的远程位置，按原路径存放，扫描时跳过该文件夹')
+            .addText(text => text
+                .setPlaceholder('/_archive')
+                .setValue(this.plugin.settings.archiveFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.archiveFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        // 远程回收站
+        containerEl.createEl('h3', { text: '远程回收站' });
+
+        new Setting(containerEl)
+            .setName('删除链接时移除远程文件')
+            .setDesc('笔记被删除或其中的 WebDAV 链接被删除，且没有其他笔记引用该文件时，将远程文件移到回收站文件夹（不会直接删除）')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.trashRemovedLinks)
+                .onChange(async (value) => {
+                    this.plugin.settings.trashRemovedLinks = value;
+                    await this.plugin.saveSettings();
+                    if (value) await this.plugin.remoteTrash.start();
+                    else this.plugin.remoteTrash.stop();
+                }));
+
+        new Setting(containerEl)
+            .setName('回收站文件夹')
+            .setDesc('文件按移入日期分文件夹存放，保留原有的目录结构')
+            .addText(text => text
+                .setPlaceholder('/_trash')
+                .setValue(this.plugin.settings.trashFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.trashFolder = value.trim() || '/_trash';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('保留天数')
+            .setDesc('命令「清空 WebDAV 回收站中的过期文件」会永久删除超过该天数的文件')
+            .addText(text => text
+                .setPlaceholder('30')
+                .setValue(String(this.plugin.settings.trashRetentionDays))
+                .onChange(async (value) => {
+                    const days = parseInt(value, 10);
+                    if (!isNaN(days) && days >= 0) {
+                        this.plugin.settings.trashRetentionDays = days;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // 公开链接
+        containerEl.createEl('h3', { text: '公开链接' });
+
+        new Setting(containerEl)
+            .setName('上传后创建公开链接')
+            .setDesc('仅支持 Nextcloud/ownCloud：上传完成后通过 OCS 共享接口创建公开共享，插入无需凭据即可查看的链接，便于导出或发布笔记。图片嵌入使用直接下载地址')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.publicShareLinks)
+                .onChange(async (value) => {
+                    this.plugin.settings.publicShareLinks = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('共享密码')
+            .setDesc('留空不设置密码。设置密码后，嵌入的图片在输入密码前无法显示；密码按「密码保存方式」加密保存')
+            .addText(text => {
+                text.inputEl.type = 'password';
+                text
+                    .setValue(this.plugin.settings.sharePassword)
+                    .onChange(async (value) => {
+                        this.plugin.settings.sharePassword = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('有效天数')
+            .setDesc('公开链接在多少天后过期，0 表示永久有效')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.shareExpireDays))
+                .onChange(async (value) => {
+                    const days = parseInt(value, 10);
+                    if (!isNaN(days) && days >= 0) {
+                        this.plugin.settings.shareExpireDays = days;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // 发布与导出
+        containerEl.createEl('h3', { text: '发布与导出' });
+        containerEl.createEl('p', {
+            text: '命令「复制笔记用于发布」「导出笔记用于发布」会按以下方式处理笔记中需要凭据的 WebDAV 链接，原笔记保持不变。',
+            attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+        });
+
+        new Setting(containerEl)
+            .setName('处理方式')
+            .setDesc('内嵌图片：下载图片并转换为 data URI（普通文件链接保持不变）；下载到导出文件夹：附件保存到导出文件夹中与笔记同名的子文件夹，并使用相对链接；改写为公开地址：把 WebDAV 地址替换为下面设置的公开地址')
+            .addDropdown(dropdown => {
+                (Object.keys(PUBLISH_MODE_LABELS) as PublishMode[]).forEach(mode => dropdown.addOption(mode, PUBLISH_MODE_LABELS[mode]));
+                dropdown
+                    .setValue(this.plugin.settings.publishMode)
+                    .onChange(async (value) => {
+                        this.plugin.settings.publishMode = value as PublishMode;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName('导出文件夹')
+            .setDesc('导出的笔记及附件保存到的本地文件夹（绝对路径）')
+            .addText(text => text
+                .setPlaceholder('例如: D:\\Blog\\posts')
+                .setValue(this.plugin.settings.exportFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.exportFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        // 每个服务器的公开地址，例如把 WebDAV 根目录同步到对象存储后的 CDN 地址
+        this.plugin.getServerProfiles().forEach(server => {
+            new Setting(containerEl)
+                .setName(`公开地址: ${server.name}`)
+                .setDesc('与该服务器 WebDAV 根目录结构相同的公开访问地址')
+                .addText(text => text
+                    .setPlaceholder('https://cdn.example.com/')
+                    .setValue(server.publicBaseUrl || '')
+                    .onChange(async (value) => {
+                        const target = this.plugin.settings.servers.find(s => s.id === server.id) || this.plugin.settings;
+                        target.publicBaseUrl = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        // 附件预览
+        containerEl.createEl('h3', { text: '附件预览' });
+
+        new Setting(containerEl)
+            .setName('自动预览的最大文件大小 (MB)')
+            .setDesc('嵌入的 PDF、音频、视频会使用凭据下载后在笔记中显示，超过该大小时需点击后才下载；文本文件只请求开头部分（服务器不支持时同样受该大小限制）。0 表示不预览，只显示文件图标和大小')
+            .addText(text => text
+                .setPlaceholder('50')
+                .setValue(String(this.plugin.settings.previewMaxSize))
+                .onChange(async (value) => {
+                    const size = parseInt(value, 10);
+                    if (!isNaN(size) && size >= 0) {
+                        this.plugin.settings.previewMaxSize = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // 图片缓存
+        containerEl.createEl('h3', { text: '图片缓存' });
+
+        new Setting(containerEl)
+            .setName('缩略图宽度 (px)')
+            .setDesc('笔记中的 WebDAV 图片滚动到可见区域时才加载，并按该宽度（或 ![alt|300](url) 指定的宽度）加载缩略图：Nextcloud/ownCloud 使用服务器的预览接口，其他服务器下载后在本地缩小。0 表示加载原图')
+            .addText(text => text
+                .setPlaceholder('800')
+                .setValue(String(this.plugin.settings.thumbnailWidth))
+                .onChange(async (value) => {
+                    const width = parseInt(value, 10);
+                    if (!isNaN(width) && width >= 0) {
+                        this.plugin.settings.thumbnailWidth = width;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('磁盘缓存大小 (MB)')
+            .setDesc('阅读视图与实时阅览中显示过的 WebDAV 图片保存在插件目录中，重启后无需重新下载，离线时也能显示；超出上限时删除最久未使用的图片。0 表示不缓存到磁盘')
+            .addText(text => text
+                .setPlaceholder('200')
+                .setValue(String(this.plugin.settings.imageCacheSize))
+                .onChange(async (value) => {
+                    const size = parseInt(value, 10);
+                    if (!isNaN(size) && size >= 0) {
+                        this.plugin.settings.imageCacheSize = size;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        const cacheSetting = new Setting(containerEl)
+            .setName('清除缓存')
+            .setDesc('正在计算缓存大小...')
+            .addButton(btn => btn
+                .setButtonText('清除')
+                .onClick(async () => {
+                    await this.plugin.imageCache.clear();
+                    cacheSetting.setDesc(`当前已缓存 ${formatSize(0)}`);
+                    new Notice('已清除 WebDAV 图片缓存');
+                }));
+        this.plugin.imageCache.getSize().then(size => cacheSetting.setDesc(`当前已缓存 ${formatSize(size)}`));
+
+        // 图片处理
+        containerEl.createEl('h3', { text: '图片处理' });
+        containerEl.createEl('p', {
+            text: '上传前按格式缩放、压缩、转换图片并去除元数据。每条映射可通过 🖼️ 按钮单独设置。',
+            attr: { style: 'color: var(--text-muted); font-size: 0.9em;' }
+        });
+        renderImageProcessingSettings(containerEl, this.plugin.settings.imageProcessing, () => this.plugin.saveSettings());
+
         // 配置测试工具
         containerEl.createEl('h3', { text: '测试与预览' });
 
         new Setting(containerEl)
             .setName('测试 WebDAV 连接')
-            .setDesc('点击按钮测试 WebDAV 服务器连接是否正常')
+            .setDesc('点击按钮测试所有已配置的 WebDAV 服务器连接是否正常')
             .addButton(btn => btn
                 .setButtonText('测试连接')
                 .onClick(async () => {
                     btn.setButtonText('测试中...');
                     btn.setDisabled(true);
-                    try {
-                        const testResult = await this.plugin.webdavExists('/');
-                        if (testResult) {
-                            new Notice('✅ WebDAV 连接成功！');
-                        } else {
-                            new Notice('❌ WebDAV 连接失败，请检查配置');
+                    const multiple = this.plugin.settings.servers.length > 0;
+                    for (const server of this.plugin.getServerProfiles()) {
+                        if (!server.webdavUrl) continue;
+                        const prefix = multiple ? `${server.name}: ` : '';
+                        try {
+                            const testResult = await this.plugin.getClient(server.id).exists('/');
+                            if (testResult) {
+                                new Notice(`✅ ${prefix}WebDAV 连接成功！`);
+                            } else {
+                                new Notice(`❌ ${prefix}WebDAV 连接失败，请检查配置`);
+                            }
+                        } catch (error) {
+                            new Notice(`❌ ${prefix}连接错误: ${error.message}`);
                         }
-                    } catch (error) {
-                        new Notice(`❌ 连接错误: ${error.message}`);
-                    } finally {
-                        btn.setButtonText('测试连接');
-                        btn.setDisabled(false);
                     }
+                    btn.setButtonText('测试连接');
+                    btn.setDisabled(false);
                 }));
 
         // 路径模拟工具
@@ -829,13 +2333,24 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
 
                     try {
                         const normalizedPath = testPath.replace(/\\/g, '/');
-                        const fileName = normalizedPath.split('/').pop() || 'file';
 
                         let mockActiveFile: TFile | null = null;
                         if (selectedNotePath) {
                             mockActiveFile = this.app.vault.getAbstractFileByPath(selectedNotePath) as TFile;
                         }
 
+                        // 按文件名模板预览上传后的文件名，本地文件存在时计算真实的内容哈希
+                        const template = this.plugin.settings.fileNameTemplate;
+                        let hash = '';
+                        if (templateNeedsHash(template) && fs.existsSync(testPath)) {
+                            hash = (await computeFileHashes(testPath)).sha256;
+                        }
+                        const fileName = renderFileNameTemplate(template, {
+                            originalName: normalizedPath.split('/').pop() || 'file',
+                            noteName: mockActiveFile?.basename || '',
+                            hash
+                        });
+
                         let remotePath = '';
                         let calculationMethod = '';
                         let isLocalLink = false; // 是否插入本地链接（不上传）
@@ -846,37 +2361,17 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
                                 calculationMethod = '⚠️ 未选择笔记，无法计算路径';
                                 remotePath = '';
                             } else {
-                                const noteParentPath = mockActiveFile.parent ? mockActiveFile.parent.path : '';
-
-                                // 检查是否匹配到映射
-                                let bestMatch: PathMapping | null = null;
-                                for (const mapping of this.plugin.settings.pathMappings) {
-                                    if (mapping.localPath && noteParentPath.startsWith(mapping.localPath)) {
-                                        if (!bestMatch || mapping.localPath.length > bestMatch.localPath.length) {
-                                            bestMatch = mapping;
-                                        }
-                                    }
-                                    // 根目录特殊处理
-                                    if (mapping.localPath === '/' && noteParentPath === '') {
-                                        bestMatch = mapping;
-                                    }
-                                }
+                                const noteParentPath = mockActiveFile.parent && mockActiveFile.parent.path !== '/' ? mockActiveFile.parent.path : '';
+                                const { remoteFolder, mapping } = this.plugin.resolveNoteFolder(mockActiveFile, fileName);
+                                remotePath = path.posix.join(remoteFolder, fileName);
 
-                                if (bestMatch) {
+                                if (mapping) {
                                     // 匹配到映射
-                                    let relativePath = '';
-                                    if (bestMatch.localPath === '/') {
-                                        relativePath = noteParentPath;
-                                    } else {
-                                        relativePath = noteParentPath.slice(bestMatch.localPath.length).replace(/^\//, '');
-                                    }
-                                    const cleanRemote = bestMatch.remotePath.replace(/\/$/, '');
-                                    remotePath = `${cleanRemote}/${relativePath}/${fileName}`.replace(/\/+/g, '/');
-                                    calculationMethod = `✅ 匹配映射: ${bestMatch.localPath} → ${bestMatch.remotePath}`;
+                                    const template = mapping.folderTemplate || this.plugin.settings.folderTemplate;
+                                    calculationMethod = `✅ 匹配映射: ${mapping.localPath} → ${mapping.remotePath}（文件夹模板: ${template}）`;
                                 } else {
                                     // 未匹配到映射，根据笔记路径在 WebDAV 根目录创建对应目录
-                                    remotePath = `/${noteParentPath}/${fileName}`.replace(/\/+/g, '/');
-                                    calculationMethod = `📁 未匹配映射，使用笔记路径: /${noteParentPath || '(根目录)'}`;
+                                    calculationMethod = `📁 未匹配映射，使用笔记路径: /${noteParentPath || '(根目录)'}（文件夹模板: ${this.plugin.settings.folderTemplate}）`;
                                 }
                             }
                         } else {
@@ -911,8 +2406,14 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
 
                         if (remotePath && !remotePath.startsWith('/')) remotePath = '/' + remotePath;
 
+                        // 按映射或同步文件夹选择的服务器
+                        const serverId = this.plugin.settings.pathMode === 'note'
+                            ? (mockActiveFile ? this.plugin.resolveServerId(mockActiveFile, normalizedPath) : '')
+                            : (this.plugin.isInSyncFolder(normalizedPath) ? this.plugin.settings.syncFolderServerId : '');
+                        const client = this.plugin.getClient(serverId);
+
                         // 显示结果
-                        const baseUrl = this.plugin.settings.webdavUrl.replace(/\/$/, '');
+                        const baseUrl = client.getBaseUrl();
 
                         if (isLocalLink) {
                             // 插入本地链接
@@ -925,7 +2426,7 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
                             `;
                         } else if (remotePath) {
                             // 检查云端是否存在
-                            const exists = await this.plugin.webdavExists(remotePath);
+                            const exists = await client.exists(remotePath);
                             const willUpload = !exists || !this.plugin.settings.preferExistingLink;
 
                             simulationResultDiv.innerHTML = `
@@ -933,6 +2434,8 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
                                     <strong>🎯 计算方式:</strong> ${calculationMethod}<br>
                                     <strong>📂 本地路径:</strong> <code style="background: var(--background-primary-alt); padding: 2px 6px; border-radius: 3px;">${testPath}</code><br>
                                     <strong>📝 目标笔记:</strong> ${selectedNotePath || '(未选择)'}<br>
+                                    <strong>📄 上传文件名:</strong> ${path.posix.basename(remotePath)}<br>
+                                    <strong>🖥️ 服务器:</strong> ${this.plugin.getServerName(serverId)}<br>
                                     <strong>☁️ 远程路径:</strong> <code style="background: var(--background-primary-alt); padding: 2px 6px; border-radius: 3px;">${remotePath}</code><br>
                                     <strong>🌐 WebDAV URL:</strong> <code style="background: var(--background-primary-alt); padding: 2px 6px; border-radius: 3px; font-size: 0.9em;">${baseUrl}${remotePath}</code><br>
                                     <strong>✨ 云端状态:</strong> ${exists ? '✅ 文件已存在' : '❌ 文件不存在'}<br>
@@ -953,4 +2456,62 @@ class WebDAVUploaderSettingTab extends PluginSettingTab {
                     }
                 }));
     }
+
+    // 认证方式及其需要的凭据，默认服务器与其他服务器共用；bearer/header 模式的令牌保存在 password 字段中，与密码一样加密保存
+    displayAuthSettings(containerEl: HTMLElement, config: AuthConfig) {
+        const mode = config.authMode || 'basic';
+
+        new Setting(containerEl)
+            .setName('认证方式')
+            .setDesc('Nextcloud/ownCloud 等服务器可使用 Basic 配合应用密码；经反向代理公开的共享可选择无需认证')
+            .addDropdown(dropdown => {
+                (Object.keys(AUTH_MODE_LABELS) as AuthMode[]).forEach(m => dropdown.addOption(m, AUTH_MODE_LABELS[m]));
+                dropdown
+                    .setValue(mode)
+                    .onChange(async (value) => {
+                        config.authMode = value as AuthMode;
+                        await this.plugin.saveSettings();
+                        this.display(); // 重新渲染以显示对应的凭据输入框
+                    });
+            });
+
+        if (mode === 'basic' || mode === 'digest') {
+            new Setting(containerEl)
+                .setName('用户名')
+                .addText(text => text
+                    .setValue(config.username)
+                    .onChange(async (value) => {
+                        config.username = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        if (mode === 'header') {
+            new Setting(containerEl)
+                .setName('请求头名称')
+                .addText(text => text
+                    .setPlaceholder('例如: X-API-Key')
+                    .setValue(config.authHeaderName || '')
+                    .onChange(async (value) => {
+                        config.authHeaderName = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        if (mode !== 'none') {
+            const secretName = mode === 'bearer' ? '令牌' : mode === 'header' ? '请求头的值' : '密码';
+            new Setting(containerEl)
+                .setName(secretName)
+                .addText(text => {
+                    text.inputEl.type = 'password';
+                    text
+                        .setPlaceholder(secretName)
+                        .setValue(config.password)
+                        .onChange(async (value) => {
+                            config.password = value;
+                            await this.plugin.saveSettings();
+                        });
+                });
+        }
+    }
 }
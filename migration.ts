@@ -0,0 +1,274 @@
+import { App, EmbedCache, FileSystemAdapter, Modal, Notice, Setting, TFile, getLinkpath } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient } from './webdav-client';
+import { FileHashes, computeFileHashes } from './file-hash';
+import { PreparedUpload } from './upload-queue';
+
+interface MigrationHost {
+    app: App;
+    settings: {
+        preferExistingLink: boolean;
+    };
+    getClient(serverId?: string): WebDAVClient;
+    isServerConfigured(serverId: string): boolean;
+    getServerName(serverId: string): string;
+    prepareUpload(note: TFile, filePath: string, fileName: string, source: { data?: ArrayBuffer; readData: () => Promise<ArrayBuffer>; skipProcessing?: boolean }): Promise<PreparedUpload>;
+    formatLink(remoteFilePath: string, fileName: string, linkTextName: string, client?: WebDAVClient): string;
+    replaceInNote(notePath: string, search: string, replacement: string): Promise<boolean>;
+    resolveDuplicate(client: WebDAVClient, remotePath: string, hashes: FileHashes, interactive?: boolean): Promise<{ remotePath: string; upload: boolean } | null>;
+    recordHash(sha256: string, url: string): Promise<void>;
+}
+
+// 一个本地附件及其在范围内笔记中的所有嵌入
+export interface MigrationEntry {
+    attachment: TFile;
+    note: TFile;                   // 第一个引用它的笔记，远程路径、服务器与图片处理规则都按它计算
+    remotePath: string;            // 试运行时预估的远程路径，图片处理可能改变扩展名，上传后更新为实际路径
+    serverId: string;
+    embeds: Map<string, EmbedCache[]>; // 笔记路径 -> 嵌入
+    referencedOutside: boolean;    // 范围外的笔记也引用了该附件，不会移入回收站
+}
+
+export interface MigrationResult {
+    migrated: MigrationEntry[];
+    trashed: number;
+    failures: { entry: MigrationEntry; error: string }[];
+}
+
+// 将笔记中嵌入的本地附件上传到 WebDAV，并把嵌入改写为 WebDAV 链接
+export class AttachmentMigrator {
+    host: MigrationHost;
+
+    constructor(host: MigrationHost) {
+        this.host = host;
+    }
+
+    // 扫描笔记生成迁移计划（试运行），不做任何修改
+    // 与拖入上传使用相同的规则：文件路径模式下不在同步文件夹内的附件保持本地嵌入，不会迁移；
+    // 附件对应的服务器未配置时直接报错，而不是等到上传时逐个失败
+    async buildPlan(notes: TFile[]): Promise<MigrationEntry[]> {
+        const { app } = this.host;
+        const scope = new Set(notes.map(note => note.path));
+        const entries = new Map<string, MigrationEntry>();
+        const excluded = new Set<string>();
+
+        for (const note of notes) {
+            const embeds = app.metadataCache.getFileCache(note)?.embeds || [];
+            for (const embed of embeds) {
+                const attachment = app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), note.path);
+                if (!attachment || attachment.extension === 'md') continue;
+
+                if (excluded.has(attachment.path)) continue;
+                let entry = entries.get(attachment.path);
+                if (!entry) {
+                    const prepared = await this.prepare(attachment, note, true);
+                    if (prepared.isLocalLink) {
+                        excluded.add(attachment.path);
+                        continue;
+                    }
+                    if (!this.host.isServerConfigured(prepared.serverId)) {
+                        throw new Error(`服务器「${this.host.getServerName(prepared.serverId)}」未配置，无法迁移 ${attachment.path}`);
+                    }
+                    entry = {
+                        attachment,
+                        note,
+                        remotePath: prepared.remotePath,
+                        serverId: prepared.serverId,
+                        embeds: new Map(),
+                        referencedOutside: false
+                    };
+                    entries.set(attachment.path, entry);
+                }
+                const noteEmbeds = entry.embeds.get(note.path) || [];
+                noteEmbeds.push(embed);
+                entry.embeds.set(note.path, noteEmbeds);
+            }
+        }
+
+        // 检查附件是否还被范围外的笔记引用
+        const resolvedLinks = app.metadataCache.resolvedLinks;
+        for (const source of Object.keys(resolvedLinks)) {
+            if (scope.has(source)) continue;
+            for (const dest of Object.keys(resolvedLinks[source])) {
+                const entry = entries.get(dest);
+                if (entry) entry.referencedOutside = true;
+            }
+        }
+
+        return Array.from(entries.values());
+    }
+
+    async execute(plan: MigrationEntry[], trashOriginals: boolean, onProgress?: (done: number, total: number) => void): Promise<MigrationResult> {
+        const result: MigrationResult = { migrated: [], trashed: 0, failures: [] };
+
+        for (let i = 0; i < plan.length; i++) {
+            const entry = plan[i];
+            onProgress?.(i, plan.length);
+            try {
+                const allReplaced = await this.migrateEntry(entry);
+                result.migrated.push(entry);
+
+                // 只有所有引用都已改写时才移除本地原件
+                if (trashOriginals && allReplaced && !entry.referencedOutside) {
+                    await this.host.app.fileManager.trashFile(entry.attachment);
+                    result.trashed++;
+                }
+            } catch (error) {
+                console.error('[WebDAV Uploader] Migration failed:', entry.attachment.path, error);
+                result.failures.push({ entry, error: error.message || String(error) });
+            }
+        }
+
+        onProgress?.(plan.length, plan.length);
+        return result;
+    }
+
+    private async migrateEntry(entry: MigrationEntry): Promise<boolean> {
+        const { settings } = this.host;
+        // 按上传时的设置处理图片，文件名可能随之改变
+        const prepared = await this.prepare(entry.attachment, entry.note, false);
+        const client = this.host.getClient(prepared.serverId);
+        const data = prepared.data || await this.host.app.vault.readBinary(entry.attachment);
+
+        let remotePath = prepared.remotePath;
+        let shouldUpload = true;
+        const hashes = await computeFileHashes('', data);
+        if (settings.preferExistingLink) {
+            const resolution = await this.host.resolveDuplicate(client, remotePath, hashes, false);
+            if (resolution) {
+                remotePath = resolution.remotePath;
+                shouldUpload = resolution.upload;
+            }
+        }
+
+        if (shouldUpload) {
+            const remoteFolder = path.posix.dirname(remotePath);
+            if (!await client.exists(remoteFolder)) {
+                await client.createDirectory(remoteFolder);
+            }
+            await client.put(remotePath, data);
+            await this.host.recordHash(hashes.sha256, client.getUrl(remotePath));
+        }
+        entry.remotePath = remotePath;
+
+        // 改写所有嵌入，保留 ![[image.png|300]] 中的尺寸
+        const fileName = path.posix.basename(remotePath);
+        let allReplaced = true;
+        for (const [notePath, embeds] of Array.from(entry.embeds.entries())) {
+            for (const embed of embeds) {
+                const size = embed.original.match(/\|\s*(\d+(?:x\d+)?)\s*(?:\]\]|\])/);
+                const linkText = this.host.formatLink(remotePath, fileName, size ? `${fileName}|${size[1]}` : fileName, client);
+                if (!await this.host.replaceInNote(notePath, embed.original, linkText)) {
+                    allReplaced = false;
+                }
+            }
+        }
+        return allReplaced;
+    }
+
+    private getFullPath(attachment: TFile): string {
+        const adapter = this.host.app.vault.adapter;
+        return adapter instanceof FileSystemAdapter ? adapter.getFullPath(attachment.path) : '';
+    }
+
+    private prepare(attachment: TFile, note: TFile, skipProcessing: boolean): Promise<PreparedUpload> {
+        return this.host.prepareUpload(note, this.getFullPath(attachment), attachment.name, {
+            readData: () => this.host.app.vault.readBinary(attachment),
+            skipProcessing
+        });
+    }
+}
+
+// 先展示试运行报告，确认后执行迁移并显示结果
+export class MigrationModal extends Modal {
+    migrator: AttachmentMigrator;
+    scopeLabel: string;
+    plan: MigrationEntry[];
+    trashOriginals = false;
+    running = false;
+
+    constructor(app: App, migrator: AttachmentMigrator, scopeLabel: string, plan: MigrationEntry[]) {
+        super(app);
+        this.migrator = migrator;
+        this.scopeLabel = scopeLabel;
+        this.plan = plan;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: '迁移本地附件到 WebDAV' });
+        contentEl.createEl('p', { text: `范围: ${this.scopeLabel}` });
+
+        if (this.plan.length === 0) {
+            contentEl.createEl('p', { text: '未找到可迁移的本地附件嵌入。' });
+            return;
+        }
+
+        const embedCount = this.plan.reduce((sum, entry) => {
+            let count = 0;
+            entry.embeds.forEach(embeds => count += embeds.length);
+            return sum + count;
+        }, 0);
+        contentEl.createEl('p', { text: `试运行: 共 ${this.plan.length} 个附件、${embedCount} 处嵌入将被上传并改写为 WebDAV 链接。` });
+
+        this.renderEntries(contentEl, this.plan, entry => `${entry.attachment.path} → ${entry.remotePath}${entry.referencedOutside ? '（范围外仍有引用，保留本地文件）' : ''}`);
+
+        new Setting(contentEl)
+            .setName('迁移后将本地原件移到回收站')
+            .setDesc('仅当附件的所有引用都已改写时才会移除')
+            .addToggle(toggle => toggle
+                .setValue(this.trashOriginals)
+                .onChange(value => this.trashOriginals = value));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText('开始迁移')
+                .setCta()
+                .onClick(() => this.run()));
+    }
+
+    async run() {
+        if (this.running) return;
+        this.running = true;
+
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '正在迁移...' });
+        const progressEl = contentEl.createEl('p');
+
+        const result = await this.migrator.execute(this.plan, this.trashOriginals, (done, total) => {
+            progressEl.setText(`${done} / ${total}`);
+        });
+
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '迁移完成' });
+        contentEl.createEl('p', {
+            text: `成功 ${result.migrated.length} 个，失败 ${result.failures.length} 个，移到回收站 ${result.trashed} 个。`
+        });
+        if (result.failures.length > 0) {
+            contentEl.createEl('h4', { text: '失败项' });
+            this.renderEntries(contentEl, result.failures, failure => `${failure.entry.attachment.path}: ${failure.error}`);
+        }
+        new Notice(`附件迁移完成: 成功 ${result.migrated.length} 个，失败 ${result.failures.length} 个`);
+        this.running = false;
+    }
+
+    // 列表过长时只显示前 200 项
+    renderEntries<T>(containerEl: HTMLElement, items: T[], format: (item: T) => string) {
+        const list = containerEl.createEl('ul', {
+            attr: { style: 'max-height: 300px; overflow-y: auto; font-size: 0.85em; word-break: break-all;' }
+        });
+        items.slice(0, 200).forEach(item => list.createEl('li', { text: format(item) }));
+        if (items.length > 200) {
+            list.createEl('li', { text: `…还有 ${items.length - 200} 项` });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
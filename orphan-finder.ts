@@ -0,0 +1,308 @@
+import { App, Modal, Notice, Setting, moment } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient, WebDAVResource, normalizeFolder } from './webdav-client';
+import { collectReferences } from './webdav-links';
+import { formatSize } from './format';
+
+interface OrphanHost {
+    app: App;
+    settings: {
+        rootFolder: string;
+        pathMappings: { remotePath: string; serverId?: string }[];
+        archiveFolder: string;
+        trashFolder: string;
+        referenceHistory: Record<string, string>;
+        hashIndex: Record<string, string>;
+        uploadQueue: { remotePath: string; serverId?: string }[];
+        shareLinks: Record<string, string>;
+    };
+    getServerProfiles(): { id: string; name: string }[];
+    getClient(serverId?: string): WebDAVClient;
+    getClientForUrl(url: string): WebDAVClient | null;
+    forgetRemoteFile(url: string): Promise<void>;
+    saveSettings(): Promise<void>;
+}
+
+export interface OrphanFile {
+    resource: WebDAVResource;
+    client: WebDAVClient;
+    url: string;
+    lastNote: string; // 最后一次记录到引用它的笔记，未知时为空
+}
+
+export interface OrphanActionResult {
+    succeeded: OrphanFile[];
+    failures: { orphan: OrphanFile; error: string }[];
+}
+
+// 查找 WebDAV 上已不被任何笔记引用的文件
+export class OrphanFinder {
+    host: OrphanHost;
+
+    constructor(host: OrphanHost) {
+        this.host = host;
+    }
+
+    // 允许扫描的文件夹：该服务器上映射的远程文件夹、非根目录的远程根文件夹，以及插件上传过文件的文件夹
+    // 不会扫描整个 WebDAV 根目录，避免把不是插件上传的文件当作孤立文件；嵌套的文件夹只保留最外层
+    getDefaultFolders(serverId: string): string[] {
+        const { settings } = this.host;
+        const client = this.host.getClient(serverId);
+        const folders = settings.pathMappings
+            .filter(mapping => (mapping.serverId || '') === serverId)
+            .map(mapping => normalizeFolder(mapping.remotePath));
+        if (!serverId) folders.push(normalizeFolder(settings.rootFolder));
+        for (const hash of Object.keys(settings.hashIndex)) {
+            const remotePath = client.toRemotePath(settings.hashIndex[hash]);
+            if (remotePath !== null) folders.push(normalizeFolder(path.posix.dirname(remotePath)));
+        }
+
+        const unique = Array.from(new Set(folders.filter(folder => folder !== '/'))).sort();
+        return unique.filter(folder => !unique.some(other => other !== folder && isUnder(folder, other)));
+    }
+
+    async scan(serverId: string, folders: string[], onProgress?: (message: string) => void): Promise<OrphanFile[]> {
+        const { settings } = this.host;
+        const client = this.host.getClient(serverId);
+        const allowedFolders = this.getDefaultFolders(serverId);
+        for (const folder of folders) {
+            if (!allowedFolders.some(allowed => isUnder(normalizeFolder(folder), allowed))) {
+                throw new Error(`${folder || '/'} 不在映射的远程文件夹或上传过文件的文件夹中`);
+            }
+        }
+        // 归档文件夹和回收站中的文件本就不被引用，不参与比对
+        const excludedFolders = [normalizeFolder(settings.archiveFolder, '/_archive'), normalizeFolder(settings.trashFolder, '/_trash')].filter(folder => folder !== '/');
+
+        onProgress?.('正在扫描笔记中的链接...');
+        // 通过公开链接引用的文件同样计入
+        const references = await collectReferences(this.host.app, url => this.host.getClientForUrl(url), settings.shareLinks);
+
+        // 记录当前的引用关系，之后变成孤立文件时可以显示最后引用它的笔记
+        references.forEach((notePaths, url) => {
+            settings.referenceHistory[url] = notePaths[notePaths.length - 1];
+        });
+        await this.host.saveSettings();
+
+        // 上传队列中的文件尚未插入最终链接，不视为孤立文件
+        const queued = new Set(settings.uploadQueue.map(item => this.host.getClient(item.serverId).getUrl(item.remotePath)));
+
+        const files = new Map<string, WebDAVResource>();
+        for (const folder of folders) {
+            onProgress?.(`正在扫描 ${folder} ...`);
+            for (const resource of await client.walk(normalizeFolder(folder))) {
+                files.set(resource.path, resource);
+            }
+        }
+
+        const orphans: OrphanFile[] = [];
+        files.forEach((resource, remotePath) => {
+            if (excludedFolders.some(folder => isUnder(remotePath, folder))) return;
+            const url = client.getUrl(remotePath);
+            if (references.has(url) || queued.has(url)) return;
+            orphans.push({ resource, client, url, lastNote: settings.referenceHistory[url] || '' });
+        });
+
+        return orphans.sort((a, b) => a.resource.path.localeCompare(b.resource.path));
+    }
+
+    async delete(orphans: OrphanFile[]): Promise<OrphanActionResult> {
+        return this.runAction(orphans, async (orphan) => {
+            await orphan.client.delete(orphan.resource.path);
+            await this.host.forgetRemoteFile(orphan.url);
+        });
+    }
+
+    // 移动到归档文件夹，保留原有的目录结构
+    async archive(orphans: OrphanFile[]): Promise<OrphanActionResult> {
+        const archiveFolder = normalizeFolder(this.host.settings.archiveFolder, '/_archive');
+        return this.runAction(orphans, async (orphan) => {
+            const target = path.posix.join(archiveFolder, orphan.resource.path);
+            await orphan.client.createDirectory(path.posix.dirname(target));
+            await orphan.client.move(orphan.resource.path, target);
+        });
+    }
+
+    private async runAction(orphans: OrphanFile[], action: (orphan: OrphanFile) => Promise<void>): Promise<OrphanActionResult> {
+        const result: OrphanActionResult = { succeeded: [], failures: [] };
+        for (const orphan of orphans) {
+            try {
+                await action(orphan);
+                result.succeeded.push(orphan);
+                delete this.host.settings.referenceHistory[orphan.url];
+            } catch (error) {
+                console.error('[WebDAV Uploader] Orphan action failed:', orphan.resource.path, error);
+                result.failures.push({ orphan, error: error.message || String(error) });
+            }
+        }
+        await this.host.saveSettings();
+        return result;
+    }
+}
+
+export class OrphanModal extends Modal {
+    finder: OrphanFinder;
+    serverId = '';
+    folders: string[];
+    orphans: OrphanFile[] = [];
+    selected = new Set<string>();
+    busy = false;
+
+    constructor(app: App, finder: OrphanFinder) {
+        super(app);
+        this.finder = finder;
+        this.folders = finder.getDefaultFolders(this.serverId);
+    }
+
+    onOpen() {
+        this.renderSetup();
+    }
+
+    renderSetup() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '查找孤立的 WebDAV 附件' });
+
+        const servers = this.finder.host.getServerProfiles();
+        if (servers.length > 1) {
+            new Setting(contentEl)
+                .setName('服务器')
+                .addDropdown(dropdown => {
+                    servers.forEach(server => dropdown.addOption(server.id, server.name));
+                    dropdown
+                        .setValue(this.serverId)
+                        .onChange(value => {
+                            this.serverId = value;
+                            this.folders = this.finder.getDefaultFolders(value);
+                            this.renderSetup();
+                        });
+                });
+        }
+
+        new Setting(contentEl)
+            .setName('扫描的远程文件夹')
+            .setDesc('每行一个，默认为所有映射的远程路径和上传过文件的文件夹，只能扫描其中的文件夹。归档文件夹和回收站不会被扫描')
+            .addTextArea(text => text
+                .setValue(this.folders.join('\n'))
+                .onChange(value => {
+                    this.folders = value.split('\n').map(line => line.trim()).filter(line => line);
+                })
+                .then(t => t.inputEl.rows = 4));
+
+        if (this.folders.length === 0) {
+            contentEl.createEl('p', { text: '该服务器上没有映射的远程文件夹，也没有上传过文件', attr: { style: 'color: var(--text-muted);' } });
+        }
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('开始扫描')
+                .setCta()
+                .onClick(() => this.scan()));
+    }
+
+    async scan() {
+        if (this.busy) return;
+        this.busy = true;
+
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '正在扫描...' });
+        const progressEl = contentEl.createEl('p');
+
+        try {
+            this.orphans = await this.finder.scan(this.serverId, this.folders, message => progressEl.setText(message));
+            // 删除不可恢复，默认不选中任何文件
+            this.selected = new Set();
+            this.renderResults();
+        } catch (error) {
+            progressEl.setText(`❌ 扫描失败: ${error.message}`);
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    renderResults() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '孤立的 WebDAV 附件' });
+
+        if (this.orphans.length === 0) {
+            contentEl.createEl('p', { text: '✅ 没有找到孤立文件' });
+            return;
+        }
+
+        const totalSize = this.orphans.reduce((sum, orphan) => sum + orphan.resource.size, 0);
+        contentEl.createEl('p', { text: `共 ${this.orphans.length} 个文件，${formatSize(totalSize)}` });
+
+        const toggleAll = contentEl.createEl('label', { attr: { style: 'display: block; margin-bottom: 6px;' } });
+        const toggleAllBox = toggleAll.createEl('input', { type: 'checkbox' });
+        toggleAllBox.checked = this.selected.size === this.orphans.length;
+        toggleAll.appendText(' 全选');
+
+        const list = contentEl.createDiv({ attr: { style: 'max-height: 360px; overflow-y: auto; font-size: 0.85em;' } });
+        const checkboxes: HTMLInputElement[] = [];
+        for (const orphan of this.orphans) {
+            const { resource } = orphan;
+            const row = list.createEl('label', { attr: { style: 'display: flex; gap: 8px; padding: 4px 0; border-bottom: 1px solid var(--background-modifier-border);' } });
+            const checkbox = row.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selected.has(resource.path);
+            checkbox.onchange = () => {
+                if (checkbox.checked) this.selected.add(resource.path);
+                else this.selected.delete(resource.path);
+            };
+            checkboxes.push(checkbox);
+
+            const info = row.createDiv({ attr: { style: 'flex: 1; word-break: break-all;' } });
+            info.createDiv({ text: resource.path });
+            const details = [formatSize(resource.size)];
+            if (resource.lastModified) details.push(moment(resource.lastModified).format('YYYY-MM-DD HH:mm'));
+            if (orphan.lastNote) details.push(`最后引用: ${orphan.lastNote}`);
+            info.createDiv({ text: details.join(' · '), attr: { style: 'color: var(--text-muted);' } });
+        }
+
+        toggleAllBox.onchange = () => {
+            checkboxes.forEach(checkbox => checkbox.checked = toggleAllBox.checked);
+            this.selected = toggleAllBox.checked ? new Set(this.orphans.map(orphan => orphan.resource.path)) : new Set();
+        };
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('移到归档文件夹')
+                .onClick(() => this.runAction('archive')))
+            .addButton(btn => btn
+                .setButtonText('删除所选')
+                .setWarning()
+                .onClick(() => this.runAction('delete')));
+    }
+
+    async runAction(action: 'delete' | 'archive') {
+        if (this.busy) return;
+        const targets = this.orphans.filter(orphan => this.selected.has(orphan.resource.path));
+        if (targets.length === 0) {
+            new Notice('请先选择文件');
+            return;
+        }
+        if (action === 'delete' && !window.confirm(`确定要从服务器永久删除 ${targets.length} 个文件吗？`)) return;
+
+        this.busy = true;
+        const result = action === 'delete' ? await this.finder.delete(targets) : await this.finder.archive(targets);
+        this.busy = false;
+
+        const done = new Set(result.succeeded.map(orphan => orphan.resource.path));
+        this.orphans = this.orphans.filter(orphan => !done.has(orphan.resource.path));
+        done.forEach(remotePath => this.selected.delete(remotePath));
+
+        const label = action === 'delete' ? '删除' : '归档';
+        new Notice(`已${label} ${result.succeeded.length} 个文件${result.failures.length ? `，失败 ${result.failures.length} 个` : ''}`);
+        result.failures.forEach(failure => console.error(`[WebDAV Uploader] ${label}失败: ${failure.orphan.resource.path}`, failure.error));
+        this.renderResults();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+function isUnder(remotePath: string, folder: string): boolean {
+    return folder === '/' || remotePath === folder || remotePath.startsWith(folder + '/');
+}
@@ -0,0 +1,132 @@
+import { App, TFile, moment } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient, parseNextcloudUrl } from './webdav-client';
+import { findWebDAVLinks, getLinkKey } from './webdav-links';
+
+interface PublicShareHost {
+    app: App;
+    settings: {
+        sharePassword: string;
+        shareExpireDays: number;
+        shareLinks: Record<string, string>; // 公开链接 -> 对应的 WebDAV 文件 URL
+    };
+    getClientForUrl(url: string): WebDAVClient | null;
+    replaceInNote(notePath: string, search: string, replacement: string): Promise<boolean>;
+    saveSettings(): Promise<void>;
+}
+
+// OCS Share API 中公开链接的共享类型
+const SHARE_TYPE_PUBLIC_LINK = 3;
+const PERMISSION_READ = 1;
+
+interface OCSShare {
+    share_type: number;
+    url: string;
+    expiration: string | null;
+    share_with: string | null; // 公开链接设置密码时不为空
+}
+
+// 通过 Nextcloud/ownCloud 的 OCS Share API 为远程文件创建公开链接，
+// 使导出或发布的笔记在没有 WebDAV 凭据时也能显示附件
+export class PublicShares {
+    host: PublicShareHost;
+
+    constructor(host: PublicShareHost) {
+        this.host = host;
+    }
+
+    // 返回可插入笔记的公开地址：嵌入的图片需要直接下载文件，普通链接打开共享页面
+    async createShare(client: WebDAVClient, remotePath: string, isEmbed: boolean): Promise<string> {
+        const { settings } = this.host;
+        const { endpoint, userPath } = getShareEndpoint(client, remotePath);
+
+        // 没有设置密码和有效期时沿用已有的公开链接，避免同一文件产生多个共享
+        let share: OCSShare | undefined;
+        if (!settings.sharePassword && !settings.shareExpireDays) {
+            const shares = await requestOCS<OCSShare[]>(client, 'GET', `${endpoint}?path=${encodeURIComponent(userPath)}&reshares=false`);
+            share = shares.find(s => s.share_type === SHARE_TYPE_PUBLIC_LINK && !s.share_with && !s.expiration);
+        }
+
+        if (!share) {
+            const params: Record<string, string> = {
+                path: userPath,
+                shareType: String(SHARE_TYPE_PUBLIC_LINK),
+                permissions: String(PERMISSION_READ)
+            };
+            if (settings.sharePassword) params.password = settings.sharePassword;
+            if (settings.shareExpireDays > 0) params.expireDate = moment().add(settings.shareExpireDays, 'days').format('YYYY-MM-DD');
+            const body = Object.keys(params).map(key => `${key}=${encodeURIComponent(params[key])}`).join('&');
+            share = await requestOCS<OCSShare>(client, 'POST', endpoint, body);
+        }
+
+        const shareUrl = isEmbed ? share.url.replace(/\/+$/, '') + '/download' : share.url;
+        settings.shareLinks[shareUrl] = client.getUrl(remotePath);
+        await this.host.saveSettings();
+        return shareUrl;
+    }
+
+    // 把链接中的 WebDAV 地址替换为公开地址
+    async shareLinkText(client: WebDAVClient, remotePath: string, linkText: string): Promise<string> {
+        const isEmbed = linkText.startsWith('!');
+        const shareUrl = await this.createShare(client, remotePath, isEmbed);
+        return linkText.replace(client.getUrl(remotePath), () => shareUrl);
+    }
+
+    // 将笔记中所有需要凭据才能访问的 WebDAV 链接替换为公开链接
+    async convertNote(notePath: string): Promise<{ converted: number; errors: string[] }> {
+        const { app } = this.host;
+        const note = app.vault.getAbstractFileByPath(notePath);
+        if (!(note instanceof TFile)) return { converted: 0, errors: [] };
+
+        const content = await app.vault.cachedRead(note);
+        const shared = new Map<string, string>(); // 同一文件、同一链接形式只创建一次
+        let converted = 0;
+        const errors: string[] = [];
+
+        for (const link of findWebDAVLinks(content, url => this.host.getClientForUrl(url))) {
+            const key = `${link.isEmbed ? '!' : ''}${getLinkKey(link)}`;
+            try {
+                let shareUrl = shared.get(key);
+                if (!shareUrl) {
+                    shareUrl = await this.createShare(link.client, link.remotePath, link.isEmbed);
+                    shared.set(key, shareUrl);
+                }
+                const replacement = link.original.replace(link.url, () => shareUrl!);
+                if (await this.host.replaceInNote(notePath, link.original, replacement)) converted++;
+            } catch (error) {
+                console.error('[WebDAV Uploader] Create share failed:', link.remotePath, error);
+                errors.push(`${path.posix.basename(link.remotePath)}: ${error.message}`);
+            }
+        }
+
+        return { converted, errors };
+    }
+}
+
+// 由 WebDAV 地址推算 OCS 接口地址和用户根目录下的路径，
+// 支持 /remote.php/dav/files/<用户>/ 与旧版的 /remote.php/webdav/，以及安装在子目录中的实例
+function getShareEndpoint(client: WebDAVClient, remotePath: string): { endpoint: string; userPath: string } {
+    const location = parseNextcloudUrl(client.getBaseUrl());
+    if (!location) throw new Error('该服务器不是 Nextcloud/ownCloud，无法创建公开链接');
+
+    return {
+        endpoint: `${location.origin}${location.basePath}/ocs/v2.php/apps/files_sharing/api/v1/shares`,
+        userPath: path.posix.join('/', location.rootPath, remotePath)
+    };
+}
+
+async function requestOCS<T>(client: WebDAVClient, method: string, url: string, body?: string): Promise<T> {
+    const headers: Record<string, string> = {
+        'OCS-APIRequest': 'true',
+        'Accept': 'application/json'
+    };
+    if (body) headers['Content-Type'] = 'application/x-www-form-urlencoded';
+
+    const response = await client.request(method, url, headers, body);
+    const json = JSON.parse(new TextDecoder().decode(response.arrayBuffer));
+    const meta = json?.ocs?.meta;
+    if (meta && meta.status !== 'ok') {
+        throw new Error(meta.message || `OCS 错误 (${meta.statuscode})`);
+    }
+    return json.ocs.data;
+}
@@ -0,0 +1,147 @@
+import { App, TFile } from 'obsidian';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WebDAVClient, toDataUrl } from './webdav-client';
+import { findWebDAVLinks, getLinkKey, WebDAVLink } from './webdav-links';
+import { getFileType, getMimeType } from './file-types';
+
+// datauri: 图片内嵌为 data URI；folder: 下载到导出文件夹并使用相对链接；cdn: 改写为镜像 WebDAV 根目录的公开地址
+export type PublishMode = 'datauri' | 'folder' | 'cdn';
+
+export const PUBLISH_MODE_LABELS: Record<PublishMode, string> = {
+    datauri: '内嵌图片 (data URI)',
+    folder: '下载到导出文件夹',
+    cdn: '改写为公开地址 (CDN)'
+};
+
+interface PublishHost {
+    app: App;
+    settings: {
+        publishMode: PublishMode;
+        exportFolder: string; // 本地文件夹的绝对路径
+    };
+    getClientForUrl(url: string): WebDAVClient | null;
+    getPublicBaseUrl(client: WebDAVClient): string;
+}
+
+export interface PublishResult {
+    content: string;
+    converted: number;
+    skipped: string[]; // 未能转换的链接及原因
+}
+
+// 生成可在 Obsidian 之外查看的笔记内容：需要凭据的 WebDAV 链接按发布方式替换
+export class NotePublisher {
+    host: PublishHost;
+
+    constructor(host: PublishHost) {
+        this.host = host;
+    }
+
+    // 写入剪贴板，folder 模式下附件同时下载到导出文件夹
+    async copy(note: TFile): Promise<PublishResult> {
+        const result = await this.render(note);
+        await navigator.clipboard.writeText(result.content);
+        return result;
+    }
+
+    // 在导出文件夹中写入 <笔记名>.md，附件位于同名子文件夹中
+    async export(note: TFile): Promise<PublishResult & { filePath: string }> {
+        const exportFolder = this.getExportFolder();
+        const result = await this.render(note);
+        const filePath = path.join(exportFolder, `${note.basename}.md`);
+        await fs.promises.mkdir(exportFolder, { recursive: true });
+        await fs.promises.writeFile(filePath, result.content, 'utf8');
+        return { ...result, filePath };
+    }
+
+    async render(note: TFile): Promise<PublishResult> {
+        const { settings } = this.host;
+        let content = await this.host.app.vault.cachedRead(note);
+        const links = findWebDAVLinks(content, url => this.host.getClientForUrl(url));
+        const assets = new Assets(settings.publishMode === 'folder' ? this.getExportFolder() : '', note.basename);
+        const resolved = new Map<string, Promise<string>>(); // 同一文件只下载一次
+        const result: PublishResult = { content, converted: 0, skipped: [] };
+
+        // 从后往前替换，前面链接的位置不受影响
+        for (const link of links.slice().reverse()) {
+            const key = getLinkKey(link);
+            try {
+                let pending = resolved.get(key);
+                if (!pending) {
+                    pending = this.resolveUrl(link, assets);
+                    resolved.set(key, pending);
+                }
+                const url = await pending;
+                if (!url) {
+                    result.skipped.push(`${link.remotePath}: 非图片链接不会内嵌`);
+                    continue;
+                }
+                const replacement = link.original.replace(link.url, () => url);
+                content = content.slice(0, link.index) + replacement + content.slice(link.index + link.original.length);
+                result.converted++;
+            } catch (error) {
+                console.error('[WebDAV Uploader] Publish link failed:', link.remotePath, error);
+                result.skipped.push(`${link.remotePath}: ${error.message}`);
+            }
+        }
+
+        result.content = content;
+        result.skipped.reverse();
+        return result;
+    }
+
+    // 返回替换后的地址；datauri 模式下只内嵌图片，其他链接返回空字符串保持原样
+    private async resolveUrl(link: WebDAVLink, assets: Assets): Promise<string> {
+        const { client } = link;
+        switch (this.host.settings.publishMode) {
+            case 'cdn': {
+                const publicBase = this.host.getPublicBaseUrl(client).replace(/\/+$/, '');
+                if (!publicBase) throw new Error('该服务器未设置公开地址');
+                return publicBase + client.getUrl(link.remotePath).slice(client.getBaseUrl().length);
+            }
+            case 'folder': {
+                const response = await client.get(link.remotePath);
+                return assets.write(getLinkKey(link), path.posix.basename(link.remotePath), response.arrayBuffer);
+            }
+            default: {
+                // 只内嵌图片，PDF、音视频、压缩包等保持链接，避免导出的笔记过大
+                if (!link.isEmbed || getFileType(link.remotePath) !== 'image') return '';
+                const response = await client.get(link.remotePath);
+                return toDataUrl(response, getMimeType(link.remotePath));
+            }
+        }
+    }
+
+    private getExportFolder(): string {
+        const folder = this.host.settings.exportFolder.trim();
+        if (!folder) throw new Error('请先在设置中填写导出文件夹');
+        return folder;
+    }
+}
+
+// 导出文件夹中 <笔记名>/ 子文件夹里的附件，不同远程文件同名时自动编号
+class Assets {
+    private folder: string;
+    private relativeFolder: string;
+    private names = new Map<string, string>(); // 文件名 -> 远程文件 URL
+
+    constructor(exportFolder: string, noteName: string) {
+        this.folder = exportFolder ? path.join(exportFolder, noteName) : '';
+        this.relativeFolder = noteName;
+    }
+
+    async write(url: string, fileName: string, data: ArrayBuffer): Promise<string> {
+        const ext = path.posix.extname(fileName);
+        const base = path.posix.basename(fileName, ext);
+        let name = fileName;
+        for (let i = 1; this.names.has(name) && this.names.get(name) !== url; i++) {
+            name = `${base} (${i})${ext}`;
+        }
+        this.names.set(name, url);
+
+        await fs.promises.mkdir(this.folder, { recursive: true });
+        await fs.promises.writeFile(path.join(this.folder, name), Buffer.from(data));
+        return [this.relativeFolder, name].map(encodeURIComponent).join('/');
+    }
+}
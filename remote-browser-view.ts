@@ -0,0 +1,373 @@
+import { App, ItemView, MarkdownView, Modal, Notice, Setting, WorkspaceLeaf, moment } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient, WebDAVResource, normalizeFolder } from './webdav-client';
+import { ImageCache } from './image-cache';
+import { RenameSync } from './rename-sync';
+import { UploadQueue, UploadQueueItem } from './upload-queue';
+import { collectReferences } from './webdav-links';
+import { formatSize } from './format';
+import { isImageFile } from './file-types';
+
+export const VIEW_TYPE_REMOTE_BROWSER = 'webdav-remote-browser';
+
+interface RemoteBrowserHost {
+    app: App;
+    renameSync: RenameSync;
+    imageCache: ImageCache;
+    uploadQueue: UploadQueue;
+    settings: {
+        rootFolder: string;
+        shareLinks: Record<string, string>;
+    };
+    getServerProfiles(): { id: string; name: string }[];
+    getClient(serverId?: string): WebDAVClient;
+    getClientForUrl(url: string): WebDAVClient | null;
+    formatLink(remoteFilePath: string, fileName: string, linkTextName: string, client?: WebDAVClient): string;
+    forgetRemoteFile(url: string): Promise<void>;
+    uploadToFolder(serverId: string, folder: string, file: File): Promise<boolean>;
+}
+
+// 超过该大小的图片不加载缩略图
+const MAX_THUMBNAIL_SIZE = 5 * 1024 * 1024;
+// 列表中缩略图的请求宽度 (px)，与笔记中图片的缩略图共用图片缓存
+const THUMBNAIL_WIDTH = 200;
+
+// 浏览 WebDAV 上的文件，点击文件将链接插入最近使用的编辑器
+export class RemoteBrowserView extends ItemView {
+    host: RemoteBrowserHost;
+    serverId = '';
+    currentFolder: string;
+    resources: WebDAVResource[] = [];
+    searchResults: WebDAVResource[] | null = null; // 递归搜索的结果，为 null 时显示当前文件夹
+    filter = '';
+    listEl: HTMLElement;
+    statusEl: HTMLElement;
+
+    constructor(leaf: WorkspaceLeaf, host: RemoteBrowserHost) {
+        super(leaf);
+        this.host = host;
+        this.currentFolder = normalizeFolder(host.settings.rootFolder);
+    }
+
+    get client(): WebDAVClient {
+        return this.host.getClient(this.serverId);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_REMOTE_BROWSER;
+    }
+
+    getDisplayText(): string {
+        return 'WebDAV 文件';
+    }
+
+    getIcon(): string {
+        return 'cloud';
+    }
+
+    async onOpen() {
+        const container = this.contentEl;
+        container.empty();
+        this.registerEvent(this.host.uploadQueue.on('uploaded', (item: UploadQueueItem) => this.onUploaded(item)));
+
+        const servers = this.host.getServerProfiles();
+        if (servers.length > 1) {
+            const serverSelect = container.createEl('select', { attr: { style: 'width: 100%; margin-bottom: 8px;' } });
+            servers.forEach(server => serverSelect.createEl('option', { text: server.name, value: server.id }));
+            serverSelect.value = this.serverId;
+            serverSelect.onchange = () => {
+                this.serverId = serverSelect.value;
+                this.navigate(this.host.settings.rootFolder);
+            };
+        }
+
+        const toolbar = container.createDiv({ attr: { style: 'display: flex; flex-wrap: wrap; gap: 4px; margin-bottom: 8px;' } });
+        toolbar.createEl('button', { text: '⬆️ 上级' }).onclick = () => this.navigate(path.posix.dirname(this.currentFolder));
+        toolbar.createEl('button', { text: '🔄 刷新' }).onclick = () => this.refresh();
+        toolbar.createEl('button', { text: '📁 新建文件夹' }).onclick = () => this.createFolder();
+        toolbar.createEl('button', { text: '📤 上传' }).onclick = () => this.upload();
+
+        const searchInput = container.createEl('input', {
+            type: 'search',
+            placeholder: '筛选当前文件夹，回车搜索所有子文件夹',
+            attr: { style: 'width: 100%; margin-bottom: 8px;' }
+        });
+        searchInput.oninput = () => {
+            this.filter = searchInput.value.trim().toLowerCase();
+            if (!this.filter) this.searchResults = null;
+            this.renderList();
+        };
+        searchInput.onkeydown = (evt) => {
+            if (evt.key === 'Enter' && this.filter) this.search();
+        };
+
+        this.statusEl = container.createDiv({ attr: { style: 'font-size: 0.85em; color: var(--text-muted); margin-bottom: 6px; word-break: break-all;' } });
+        this.listEl = container.createDiv();
+
+        await this.refresh();
+    }
+
+    async navigate(folder: string) {
+        this.currentFolder = normalizeFolder(folder);
+        this.searchResults = null;
+        await this.refresh();
+    }
+
+    async refresh() {
+        this.statusEl.setText(`📂 ${this.currentFolder} · 加载中...`);
+        try {
+            const resources = await this.client.list(this.currentFolder);
+            // 文件夹在前，按名称排序
+            this.resources = resources.sort((a, b) => {
+                if (a.isCollection !== b.isCollection) return a.isCollection ? -1 : 1;
+                return a.name.localeCompare(b.name);
+            });
+            this.statusEl.setText(`📂 ${this.currentFolder}`);
+        } catch (error) {
+            this.resources = [];
+            this.statusEl.setText(`❌ 无法加载 ${this.currentFolder}: ${error.message}`);
+        }
+        this.renderList();
+    }
+
+    async search() {
+        this.statusEl.setText(`🔍 正在搜索 ${this.currentFolder} ...`);
+        try {
+            const files = await this.client.walk(this.currentFolder);
+            this.searchResults = files.sort((a, b) => a.path.localeCompare(b.path));
+            this.statusEl.setText(`🔍 ${this.currentFolder} 中的搜索结果`);
+        } catch (error) {
+            this.statusEl.setText(`❌ 搜索失败: ${error.message}`);
+        }
+        this.renderList();
+    }
+
+    renderList() {
+        this.listEl.empty();
+        const source = this.searchResults || this.resources;
+        const items = this.filter ? source.filter(resource => resource.name.toLowerCase().includes(this.filter)) : source;
+
+        if (items.length === 0) {
+            this.listEl.createEl('p', {
+                text: this.filter ? '没有匹配的文件' : '文件夹为空',
+                attr: { style: 'color: var(--text-muted); font-style: italic;' }
+            });
+            return;
+        }
+
+        items.forEach(resource => this.renderItem(resource, !!this.searchResults));
+    }
+
+    renderItem(resource: WebDAVResource, showPath: boolean) {
+        const row = this.listEl.createDiv({
+            attr: { style: 'display: flex; gap: 8px; align-items: center; padding: 4px 6px; margin-bottom: 4px; border-radius: 4px; background: var(--background-secondary); cursor: pointer;' }
+        });
+        row.title = resource.isCollection ? '打开文件夹' : '插入链接到笔记';
+        row.onclick = () => resource.isCollection ? this.navigate(resource.path) : this.insertLink(resource);
+
+        const icon = row.createDiv({ attr: { style: 'width: 40px; height: 40px; flex-shrink: 0; display: flex; align-items: center; justify-content: center; font-size: 1.4em;' } });
+        if (resource.isCollection) {
+            icon.setText('📁');
+        } else if (isImageFile(resource.name) && resource.size <= MAX_THUMBNAIL_SIZE) {
+            this.loadThumbnail(resource, icon);
+        } else {
+            icon.setText('📄');
+        }
+
+        const info = row.createDiv({ attr: { style: 'flex: 1; min-width: 0;' } });
+        info.createDiv({ text: showPath ? resource.path : resource.name, attr: { style: 'word-break: break-all;' } });
+        if (!resource.isCollection) {
+            const details = [formatSize(resource.size)];
+            if (resource.lastModified) details.push(moment(resource.lastModified).format('YYYY-MM-DD HH:mm'));
+            info.createDiv({ text: details.join(' · '), attr: { style: 'font-size: 0.8em; color: var(--text-muted);' } });
+        }
+
+        const actions = row.createDiv({ attr: { style: 'display: flex; gap: 2px; flex-shrink: 0;' } });
+        const renameBtn = actions.createEl('button', { text: '✏️', attr: { title: '重命名' } });
+        renameBtn.onclick = (evt) => {
+            evt.stopPropagation();
+            this.rename(resource);
+        };
+        const deleteBtn = actions.createEl('button', { text: '🗑️', attr: { title: '删除' } });
+        deleteBtn.onclick = (evt) => {
+            evt.stopPropagation();
+            this.delete(resource);
+        };
+    }
+
+    async loadThumbnail(resource: WebDAVResource, iconEl: HTMLElement) {
+        iconEl.setText('🖼️');
+        try {
+            const dataUrl = await this.host.imageCache.load(this.client.getUrl(resource.path), THUMBNAIL_WIDTH);
+            iconEl.empty();
+            iconEl.createEl('img', { attr: { src: dataUrl, style: 'max-width: 40px; max-height: 40px; object-fit: cover; border-radius: 2px;' } });
+        } catch (error) {
+            console.error('[WebDAV Uploader] Thumbnail failed:', resource.path, error);
+        }
+    }
+
+    // 侧边栏获得焦点后没有活动的编辑器，使用最近使用的 Markdown 视图
+    insertLink(resource: WebDAVResource) {
+        const leaf = this.app.workspace.getMostRecentLeaf();
+        if (!leaf || !(leaf.view instanceof MarkdownView)) {
+            new Notice('请先打开一篇笔记');
+            return;
+        }
+        leaf.view.editor.replaceSelection(this.host.formatLink(resource.path, resource.name, resource.name, this.client));
+        this.app.workspace.setActiveLeaf(leaf, { focus: true });
+    }
+
+    createFolder() {
+        new NamePromptModal(this.app, '新建文件夹', '', async (name) => {
+            try {
+                await this.client.createDirectory(path.posix.join(this.currentFolder, name));
+                await this.refresh();
+            } catch (error) {
+                new Notice(`❌ 创建文件夹失败: ${error.message}`);
+            }
+        }).open();
+    }
+
+    // 通过上传队列上传到当前文件夹，完成后由 'uploaded' 事件刷新列表
+    upload() {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.multiple = true;
+        input.onchange = async () => {
+            const folder = this.currentFolder;
+            const files = Array.from(input.files || []);
+            for (const file of files) {
+                try {
+                    if (await this.host.uploadToFolder(this.serverId, folder, file)) {
+                        new Notice(`已加入上传队列: ${file.name}`);
+                    }
+                } catch (error) {
+                    new Notice(`❌ 上传 ${file.name} 失败: ${error.message}`);
+                }
+            }
+        };
+        input.click();
+    }
+
+    private onUploaded(item: UploadQueueItem) {
+        if ((item.serverId || '') !== this.serverId || this.searchResults) return;
+        if (path.posix.dirname(item.remotePath) === this.currentFolder) this.refresh();
+    }
+
+    // 重命名文件或文件夹时一并改写笔记中引用其中文件的链接，并记录到移动日志
+    rename(resource: WebDAVResource) {
+        new NamePromptModal(this.app, '重命名', resource.name, async (name) => {
+            if (name === resource.name) return;
+            const target = path.posix.join(path.posix.dirname(resource.path), name);
+            try {
+                let links: number;
+                if (resource.isCollection) {
+                    const log = await this.host.renameSync.moveFolder(this.client, resource.path, target);
+                    links = log.reduce((sum, entry) => sum + entry.links, 0);
+                } else {
+                    const [result] = await this.host.renameSync.execute([{ client: this.client, from: resource.path, to: target, notePath: '' }]);
+                    if (result.error) throw new Error(result.error);
+                    links = result.links;
+                }
+                if (links > 0) new Notice(`已改写 ${links} 处链接`);
+                await this.refresh();
+            } catch (error) {
+                new Notice(`❌ 重命名失败: ${error.message}`);
+            }
+        }).open();
+    }
+
+    async delete(resource: WebDAVResource) {
+        let message = resource.isCollection
+            ? `确定要删除文件夹 ${resource.path} 及其中的所有文件吗？`
+            : `确定要删除 ${resource.path} 吗？`;
+
+        // 删除仍被笔记引用的文件会使这些链接失效，确认前列出引用它的笔记
+        const notePaths = await this.findReferencingNotes(resource);
+        if (notePaths.length > 0) {
+            const shown = notePaths.slice(0, 5).join('\n');
+            const more = notePaths.length > 5 ? `\n... 等 ${notePaths.length} 个文件` : '';
+            message += `\n\n⚠️ 以下笔记仍在引用${resource.isCollection ? '其中的文件' : '该文件'}，删除后链接将失效：\n${shown}${more}`;
+        }
+        if (!window.confirm(message)) return;
+
+        try {
+            const url = this.client.getUrl(resource.path);
+            await this.client.delete(resource.path);
+            if (!resource.isCollection) {
+                await this.host.forgetRemoteFile(url);
+                await this.host.imageCache.forget(url);
+            }
+            if (this.searchResults) this.searchResults = this.searchResults.filter(r => r.path !== resource.path);
+            await this.refresh();
+        } catch (error) {
+            new Notice(`❌ 删除失败: ${error.message}`);
+        }
+    }
+
+    private async findReferencingNotes(resource: WebDAVResource): Promise<string[]> {
+        const references = await collectReferences(this.app, url => this.host.getClientForUrl(url), this.host.settings.shareLinks);
+        const url = this.client.getUrl(resource.path);
+        const notePaths = new Set<string>();
+        references.forEach((paths, referenced) => {
+            const matches = resource.isCollection ? referenced.startsWith(url.replace(/\/?$/, '/')) : referenced === url;
+            if (matches) paths.forEach(notePath => notePaths.add(notePath));
+        });
+        return Array.from(notePaths).sort();
+    }
+}
+
+class NamePromptModal extends Modal {
+    title: string;
+    value: string;
+    onSubmit: (value: string) => void;
+
+    constructor(app: App, title: string, value: string, onSubmit: (value: string) => void) {
+        super(app);
+        this.title = title;
+        this.value = value;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: this.title });
+
+        new Setting(contentEl)
+            .setName('名称')
+            .addText(text => text
+                .setValue(this.value)
+                .onChange(value => this.value = value)
+                .then(t => {
+                    t.inputEl.focus();
+                    t.inputEl.select();
+                    t.inputEl.addEventListener('keypress', (e) => {
+                        if (e.key === 'Enter') this.submit();
+                    });
+                }));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText('确定')
+                .setCta()
+                .onClick(() => this.submit()));
+    }
+
+    submit() {
+        const name = this.value.trim();
+        if (!name || /[\\/]/.test(name)) {
+            new Notice('名称不能为空，也不能包含 / 或 \\');
+            return;
+        }
+        this.onSubmit(name);
+        this.close();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,178 @@
+import { App, Notice, TAbstractFile, TFile, moment } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient, WebDAVError, normalizeFolder } from './webdav-client';
+import { findReferencedUrls, REFERENCE_EXTENSIONS } from './webdav-links';
+
+interface RemoteTrashHost {
+    app: App;
+    clients: Map<string, WebDAVClient>;
+    settings: {
+        trashRemovedLinks: boolean;
+        trashFolder: string;
+        trashRetentionDays: number;
+        uploadQueue: { remotePath: string; serverId?: string }[];
+        shareLinks: Record<string, string>;
+    };
+    getClient(serverId?: string): WebDAVClient;
+    getClientForUrl(url: string): WebDAVClient | null;
+    forgetRemoteFile(url: string): Promise<void>;
+}
+
+// 链接被删除后等待一段时间再检查，避免把剪切后粘贴到其他笔记的链接误移到回收站
+const TRASH_DELAY = 10000;
+
+const DAY_FOLDER_FORMAT = 'YYYY-MM-DD';
+
+// 笔记中的 WebDAV 链接被删除且没有其他笔记引用时，把远程文件移到 WebDAV 回收站文件夹
+export class RemoteTrash {
+    host: RemoteTrashHost;
+    private references = new Map<string, Set<string>>(); // 笔记或白板路径 -> 引用的远程文件 URL
+    private candidates = new Set<string>();
+    private timer: number | null = null;
+    private ready = false;
+
+    constructor(host: RemoteTrashHost) {
+        this.host = host;
+    }
+
+    // 扫描所有笔记和白板建立引用索引，之后根据它们的变化增量更新
+    async start() {
+        this.stop();
+        if (!this.host.settings.trashRemovedLinks) return;
+
+        const { vault } = this.host.app;
+        for (const file of vault.getFiles().filter(f => REFERENCE_EXTENSIONS.indexOf(f.extension) >= 0)) {
+            this.references.set(file.path, this.extractUrls(await vault.cachedRead(file), file.extension));
+        }
+        this.ready = true;
+    }
+
+    stop() {
+        if (this.timer !== null) window.clearTimeout(this.timer);
+        this.timer = null;
+        this.ready = false;
+        this.references.clear();
+        this.candidates.clear();
+    }
+
+    handleChange(file: TFile, content: string) {
+        if (!this.ready || REFERENCE_EXTENSIONS.indexOf(file.extension) < 0) return;
+        const previous = this.references.get(file.path);
+        const current = this.extractUrls(content, file.extension);
+        this.references.set(file.path, current);
+        if (previous) this.markRemoved(previous, current);
+    }
+
+    handleDelete(file: TAbstractFile) {
+        if (!this.ready) return;
+        const previous = this.references.get(file.path);
+        if (!previous) return;
+        this.references.delete(file.path);
+        this.markRemoved(previous, new Set());
+    }
+
+    handleRename(file: TAbstractFile, oldPath: string) {
+        if (!this.ready) return;
+        const previous = this.references.get(oldPath);
+        if (!previous) return;
+        this.references.delete(oldPath);
+        this.references.set(file.path, previous);
+    }
+
+    // 清除所有服务器回收站中超过保留天数的文件，按移入日期的文件夹整体删除
+    async purge(): Promise<number> {
+        let purged = 0;
+        for (const client of Array.from(this.host.clients.values())) {
+            if (client.getBaseUrl()) purged += await this.purgeServer(client);
+        }
+        return purged;
+    }
+
+    private async purgeServer(client: WebDAVClient): Promise<number> {
+        const { settings } = this.host;
+        const trashFolder = normalizeFolder(settings.trashFolder, '/_trash');
+        const cutoff = moment().startOf('day').subtract(settings.trashRetentionDays, 'days');
+
+        let folders;
+        try {
+            folders = await client.list(trashFolder);
+        } catch (error) {
+            if (error instanceof WebDAVError && error.status === 404) return 0;
+            throw error;
+        }
+
+        let purged = 0;
+        for (const folder of folders) {
+            const date = moment(folder.name, DAY_FOLDER_FORMAT, true);
+            if (!folder.isCollection || !date.isValid() || !date.isBefore(cutoff)) continue;
+            await client.delete(folder.path);
+            purged++;
+        }
+        return purged;
+    }
+
+    // 与查找孤立附件使用相同的引用判断：Markdown 链接、引用式链接定义、HTML 图片和白板中的地址
+    private extractUrls(content: string, extension: string): Set<string> {
+        return new Set(findReferencedUrls(content, url => this.host.getClientForUrl(url), this.host.settings.shareLinks, extension));
+    }
+
+    private markRemoved(previous: Set<string>, current: Set<string>) {
+        let added = false;
+        previous.forEach(url => {
+            if (current.has(url)) return;
+            this.candidates.add(url);
+            added = true;
+        });
+        if (!added) return;
+
+        if (this.timer !== null) window.clearTimeout(this.timer);
+        this.timer = window.setTimeout(() => this.flush(), TRASH_DELAY);
+    }
+
+    private isReferenced(url: string): boolean {
+        for (const urls of Array.from(this.references.values())) {
+            if (urls.has(url)) return true;
+        }
+        return this.host.settings.uploadQueue.some(item => this.host.getClient(item.serverId).getUrl(item.remotePath) === url);
+    }
+
+    private async flush() {
+        this.timer = null;
+        const candidates = Array.from(this.candidates).filter(url => !this.isReferenced(url));
+        this.candidates.clear();
+
+        const trashed: string[] = [];
+        for (const url of candidates) {
+            const client = this.host.getClientForUrl(url);
+            const remotePath = client?.toRemotePath(url);
+            if (!client || !remotePath) continue;
+            try {
+                if (await this.moveToTrash(client, remotePath)) {
+                    trashed.push(remotePath);
+                    await this.host.forgetRemoteFile(url);
+                }
+            } catch (error) {
+                console.error('[WebDAV Uploader] Move to trash failed:', url, error);
+                new Notice(`❌ 无法将 ${remotePath} 移到 WebDAV 回收站: ${error.message}`);
+            }
+        }
+
+        if (trashed.length === 1) {
+            new Notice(`🗑️ 已将不再被引用的 ${trashed[0]} 移到 WebDAV 回收站`);
+        } else if (trashed.length > 1) {
+            new Notice(`🗑️ 已将 ${trashed.length} 个不再被引用的文件移到 WebDAV 回收站`);
+        }
+    }
+
+    // 回收站中按日期分文件夹，保留原有的目录结构；文件已不存在（例如已被移动）时跳过
+    private async moveToTrash(client: WebDAVClient, remotePath: string): Promise<boolean> {
+        const trashFolder = normalizeFolder(this.host.settings.trashFolder, '/_trash');
+        if (remotePath === trashFolder || remotePath.startsWith(trashFolder + '/')) return false;
+        if (!await client.stat(remotePath)) return false;
+
+        const target = path.posix.join(trashFolder, moment().format(DAY_FOLDER_FORMAT), remotePath);
+        await client.createDirectory(path.posix.dirname(target));
+        await client.move(remotePath, target, true);
+        return true;
+    }
+}
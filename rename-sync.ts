@@ -0,0 +1,288 @@
+import { App, Modal, Notice, Setting, TAbstractFile, TFile, TFolder, moment } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient, normalizeFolder } from './webdav-client';
+import { findWebDAVLinks, getLinkKey } from './webdav-links';
+
+export interface RenameLogEntry {
+    time: number;
+    from: string;
+    to: string;
+    links: number;  // 改写的链接数量
+    error?: string;
+}
+
+interface RenameSyncHost {
+    app: App;
+    settings: {
+        pathMode: 'note' | 'local';
+        syncRemoteOnRename: boolean;
+        renameLog: RenameLogEntry[];
+    };
+    getClient(serverId?: string): WebDAVClient;
+    getClientForUrl(url: string): WebDAVClient | null;
+    resolveServerId(note: TFile, filePath: string, notePath?: string): string;
+    resolveNoteFolder(note: TFile, fileName: string, notePath?: string): { remoteFolder: string };
+    replaceInNote(notePath: string, search: string, replacement: string): Promise<boolean>;
+    onRemoteMoved(fromUrl: string, toUrl: string): void;
+    saveSettings(): Promise<void>;
+}
+
+// 一个需要在服务器上移动的远程文件
+export interface RenameSyncEntry {
+    client: WebDAVClient;
+    from: string;
+    to: string;
+    notePath: string; // 触发移动的笔记（重命名后的路径）
+}
+
+const MAX_LOG_ENTRIES = 200;
+
+// 笔记或文件夹重命名后，把按旧位置生成的远程附件移动到新位置，并改写所有引用它们的链接
+export class RenameSync {
+    host: RenameSyncHost;
+    private pending = new Map<string, string>(); // 新笔记路径 -> 旧笔记路径
+    private timer: number | null = null;
+
+    constructor(host: RenameSyncHost) {
+        this.host = host;
+    }
+
+    // 重命名文件夹时 Obsidian 会为文件夹及其中的每个文件分别触发事件，短暂延迟后合并为一次确认
+    handleRename(file: TAbstractFile, oldPath: string) {
+        const { settings } = this.host;
+        if (!settings.syncRemoteOnRename || settings.pathMode !== 'note') return;
+
+        if (file instanceof TFolder) {
+            for (const note of this.host.app.vault.getMarkdownFiles()) {
+                if (note.path.startsWith(file.path + '/')) {
+                    this.pending.set(note.path, oldPath + note.path.slice(file.path.length));
+                }
+            }
+        } else if (file instanceof TFile && file.extension === 'md') {
+            this.pending.set(file.path, oldPath);
+        } else {
+            return;
+        }
+
+        if (this.timer !== null) window.clearTimeout(this.timer);
+        this.timer = window.setTimeout(() => this.flush(), 500);
+    }
+
+    stop() {
+        if (this.timer !== null) window.clearTimeout(this.timer);
+        this.timer = null;
+        this.pending.clear();
+    }
+
+    private async flush() {
+        this.timer = null;
+        const renames = Array.from(this.pending.entries());
+        this.pending.clear();
+
+        const plan = await this.buildPlan(renames);
+        if (plan.length > 0) {
+            new RenameSyncModal(this.host.app, this, plan).open();
+        }
+    }
+
+    // 只移动仍位于旧位置按当前规则计算出的文件夹中的附件，手动调整过位置的附件保持不动；
+    // 新旧位置映射到不同服务器时无法使用 MOVE，同样保持不动
+    async buildPlan(renames: [string, string][]): Promise<RenameSyncEntry[]> {
+        const { app } = this.host;
+        const entries = new Map<string, RenameSyncEntry>();
+
+        for (const [notePath, oldNotePath] of renames) {
+            const note = app.vault.getAbstractFileByPath(notePath);
+            if (!(note instanceof TFile)) continue;
+
+            const serverId = this.host.resolveServerId(note, '');
+            if (this.host.resolveServerId(note, '', oldNotePath) !== serverId) continue;
+            const client = this.host.getClient(serverId);
+
+            const content = await app.vault.cachedRead(note);
+            for (const link of findWebDAVLinks(content, url => this.host.getClientForUrl(url))) {
+                const key = getLinkKey(link);
+                if (link.client !== client || entries.has(key)) continue;
+
+                const fileName = path.posix.basename(link.remotePath);
+                const oldFolder = this.host.resolveNoteFolder(note, fileName, oldNotePath).remoteFolder;
+                const newFolder = this.host.resolveNoteFolder(note, fileName).remoteFolder;
+                if (oldFolder === newFolder || path.posix.dirname(link.remotePath) !== oldFolder) continue;
+
+                entries.set(key, {
+                    client,
+                    from: link.remotePath,
+                    to: path.posix.join(newFolder, fileName),
+                    notePath
+                });
+            }
+        }
+
+        return Array.from(entries.values());
+    }
+
+    async execute(plan: RenameSyncEntry[], onProgress?: (done: number, total: number) => void): Promise<RenameLogEntry[]> {
+        const log: RenameLogEntry[] = [];
+        const moved = new Map<string, RenameLogEntry>(); // 原 URL -> 日志
+
+        for (let i = 0; i < plan.length; i++) {
+            const entry = plan[i];
+            onProgress?.(i, plan.length);
+            const logEntry: RenameLogEntry = { time: Date.now(), from: entry.from, to: entry.to, links: 0 };
+            const { client } = entry;
+            try {
+                await client.createDirectory(path.posix.dirname(entry.to));
+                await client.move(entry.from, entry.to);
+                this.host.onRemoteMoved(client.getUrl(entry.from), client.getUrl(entry.to));
+                moved.set(client.getUrl(entry.from), logEntry);
+            } catch (error) {
+                console.error('[WebDAV Uploader] Remote move failed:', entry.from, error);
+                logEntry.error = error.message || String(error);
+            }
+            log.push(logEntry);
+        }
+
+        await this.rewriteLinks(moved);
+        onProgress?.(plan.length, plan.length);
+        await this.appendLog(log);
+        return log;
+    }
+
+    // 整体移动远程文件夹，并改写指向其中每个文件的链接；每个文件各记一条日志
+    async moveFolder(client: WebDAVClient, from: string, to: string): Promise<RenameLogEntry[]> {
+        from = normalizeFolder(from);
+        to = normalizeFolder(to);
+        const files = await client.walk(from);
+        await client.createDirectory(path.posix.dirname(to));
+        await client.move(from, to);
+
+        const log: RenameLogEntry[] = [];
+        const moved = new Map<string, RenameLogEntry>();
+        for (const file of files) {
+            const logEntry: RenameLogEntry = { time: Date.now(), from: file.path, to: to + file.path.slice(from.length), links: 0 };
+            this.host.onRemoteMoved(client.getUrl(logEntry.from), client.getUrl(logEntry.to));
+            moved.set(client.getUrl(logEntry.from), logEntry);
+            log.push(logEntry);
+        }
+
+        await this.rewriteLinks(moved);
+        await this.appendLog(log);
+        return log;
+    }
+
+    // 移动完成后统一扫描一次所有笔记，改写指向旧路径的链接（moved: 原 URL -> 日志）
+    private async rewriteLinks(moved: Map<string, RenameLogEntry>) {
+        if (moved.size === 0) return;
+        for (const note of this.host.app.vault.getMarkdownFiles()) {
+            const content = await this.host.app.vault.cachedRead(note);
+            for (const link of findWebDAVLinks(content, url => this.host.getClientForUrl(url))) {
+                const logEntry = moved.get(getLinkKey(link));
+                if (!logEntry) continue;
+                const replacement = link.original.replace(link.url, link.client.getUrl(logEntry.to));
+                if (await this.host.replaceInNote(note.path, link.original, replacement)) {
+                    logEntry.links++;
+                }
+            }
+        }
+    }
+
+    private async appendLog(entries: RenameLogEntry[]) {
+        const { settings } = this.host;
+        settings.renameLog = settings.renameLog.concat(entries).slice(-MAX_LOG_ENTRIES);
+        await this.host.saveSettings();
+    }
+}
+
+export function formatLogEntry(entry: RenameLogEntry): string {
+    const time = moment(entry.time).format('YYYY-MM-DD HH:mm');
+    const result = entry.error ? `❌ ${entry.error}` : `✅ 改写 ${entry.links} 处链接`;
+    return `${time}  ${entry.from} → ${entry.to}  ${result}`;
+}
+
+// 确认要移动的远程文件，执行后显示移动日志
+export class RenameSyncModal extends Modal {
+    sync: RenameSync;
+    plan: RenameSyncEntry[];
+    running = false;
+
+    constructor(app: App, sync: RenameSync, plan: RenameSyncEntry[]) {
+        super(app);
+        this.sync = sync;
+        this.plan = plan;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: '同步移动远程附件' });
+        contentEl.createEl('p', { text: `笔记位置已变化，以下 ${this.plan.length} 个 WebDAV 文件将移动到新位置对应的远程文件夹，并改写所有引用它们的链接。` });
+        renderLines(contentEl, this.plan.map(entry => `${entry.from} → ${entry.to}`));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('保持不动')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText('移动并更新链接')
+                .setCta()
+                .onClick(() => this.run()));
+    }
+
+    async run() {
+        if (this.running) return;
+        this.running = true;
+
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '正在移动...' });
+        const progressEl = contentEl.createEl('p');
+
+        const log = await this.sync.execute(this.plan, (done, total) => {
+            progressEl.setText(`${done} / ${total}`);
+        });
+
+        const failed = log.filter(entry => entry.error).length;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '移动完成' });
+        contentEl.createEl('p', { text: `成功 ${log.length - failed} 个，失败 ${failed} 个。` });
+        renderLines(contentEl, log.map(formatLogEntry));
+        new Notice(`远程附件移动完成: 成功 ${log.length - failed} 个，失败 ${failed} 个`);
+        this.running = false;
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// 查看历次同步移动的日志，最新的在前
+export class RenameLogModal extends Modal {
+    log: RenameLogEntry[];
+
+    constructor(app: App, log: RenameLogEntry[]) {
+        super(app);
+        this.log = log;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: '远程附件移动日志' });
+        if (this.log.length === 0) {
+            contentEl.createEl('p', { text: '暂无记录。' });
+            return;
+        }
+        renderLines(contentEl, this.log.slice().reverse().map(formatLogEntry));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+function renderLines(containerEl: HTMLElement, lines: string[]) {
+    const list = containerEl.createEl('ul', {
+        attr: { style: 'max-height: 300px; overflow-y: auto; font-size: 0.85em; word-break: break-all;' }
+    });
+    lines.forEach(line => list.createEl('li', { text: line }));
+}
@@ -0,0 +1,219 @@
+import { App, Modal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import * as path from 'path';
+import { WebDAVClient } from './webdav-client';
+import { findWebDAVLinks, getLinkAlt, getLinkKey, getLinkSize, WebDAVLink } from './webdav-links';
+
+interface DownloadHost {
+    app: App;
+    settings: {
+        downloadFolder: string;
+    };
+    getClientForUrl(url: string): WebDAVClient | null;
+    replaceInNote(notePath: string, search: string, replacement: string): Promise<boolean>;
+}
+
+// 一个远程文件及其在范围内笔记中的所有链接
+export interface DownloadEntry {
+    remotePath: string;
+    url: string;
+    client: WebDAVClient;
+    links: Map<string, WebDAVLink[]>; // 笔记路径 -> 链接
+}
+
+export interface DownloadResult {
+    downloaded: { entry: DownloadEntry; localPath: string }[];
+    failures: { entry: DownloadEntry; error: string }[];
+}
+
+// 将笔记中的 WebDAV 附件下载回仓库，并把链接改写为本地链接
+export class AttachmentDownloader {
+    host: DownloadHost;
+
+    constructor(host: DownloadHost) {
+        this.host = host;
+    }
+
+    async buildPlan(notes: TFile[]): Promise<DownloadEntry[]> {
+        const entries = new Map<string, DownloadEntry>();
+
+        for (const note of notes) {
+            const content = await this.host.app.vault.cachedRead(note);
+            for (const link of findWebDAVLinks(content, url => this.host.getClientForUrl(url))) {
+                const key = getLinkKey(link);
+                let entry = entries.get(key);
+                if (!entry) {
+                    entry = { remotePath: link.remotePath, url: link.url, client: link.client, links: new Map() };
+                    entries.set(key, entry);
+                }
+                const noteLinks = entry.links.get(note.path) || [];
+                noteLinks.push(link);
+                entry.links.set(note.path, noteLinks);
+            }
+        }
+
+        return Array.from(entries.values());
+    }
+
+    async execute(plan: DownloadEntry[], onProgress?: (done: number, total: number) => void): Promise<DownloadResult> {
+        const result: DownloadResult = { downloaded: [], failures: [] };
+
+        for (let i = 0; i < plan.length; i++) {
+            const entry = plan[i];
+            onProgress?.(i, plan.length);
+            try {
+                const file = await this.download(entry);
+                await this.rewriteLinks(entry, file);
+                result.downloaded.push({ entry, localPath: file.path });
+            } catch (error) {
+                console.error('[WebDAV Uploader] Download failed:', entry.url, error);
+                result.failures.push({ entry, error: error.message || String(error) });
+            }
+        }
+
+        onProgress?.(plan.length, plan.length);
+        return result;
+    }
+
+    private async download(entry: DownloadEntry): Promise<TFile> {
+        const firstNote = entry.links.keys().next().value as string;
+        return this.saveToVault(entry.client, entry.remotePath, firstNote);
+    }
+
+    // 下载单个远程文件到附件保存文件夹（未设置时按 Obsidian 的附件位置，相对 notePath 计算），不改写链接
+    async saveToVault(client: WebDAVClient, remotePath: string, notePath: string): Promise<TFile> {
+        const { app, settings } = this.host;
+        const response = await client.get(remotePath);
+        const fileName = path.posix.basename(remotePath) || 'attachment';
+
+        let targetPath: string;
+        if (settings.downloadFolder) {
+            // 使用插件设置的下载文件夹
+            const folder = normalizePath(settings.downloadFolder);
+            if (!app.vault.getAbstractFileByPath(folder)) {
+                await app.vault.createFolder(folder);
+            }
+            targetPath = this.getAvailablePath(folder, fileName);
+        } else {
+            // 使用 Obsidian 的附件位置设置
+            targetPath = await app.fileManager.getAvailablePathForAttachment(fileName, notePath);
+        }
+
+        return app.vault.createBinary(targetPath, response.arrayBuffer);
+    }
+
+    private getAvailablePath(folder: string, fileName: string): string {
+        const ext = path.posix.extname(fileName);
+        const base = path.posix.basename(fileName, ext);
+        let candidate = normalizePath(`${folder}/${fileName}`);
+        for (let i = 1; this.host.app.vault.getAbstractFileByPath(candidate); i++) {
+            candidate = normalizePath(`${folder}/${base} ${i}${ext}`);
+        }
+        return candidate;
+    }
+
+    // 按用户的链接格式设置（Wiki 链接或 Markdown 链接）生成本地链接
+    private async rewriteLinks(entry: DownloadEntry, file: TFile) {
+        for (const [notePath, links] of Array.from(entry.links.entries())) {
+            for (const link of links) {
+                await this.host.replaceInNote(notePath, link.original, this.formatLocalLink(file, notePath, link));
+            }
+        }
+    }
+
+    // 按用户的链接格式生成本地链接；Obsidian 为附件生成的链接可能已带 "!"，统一去掉后按原链接是否嵌入添加
+    // 嵌入保留替代文字和尺寸：Wiki 链接写作 ![[a.png|300]]，Markdown 链接写作 ![alt|300](a.png)；普通链接保留与文件名不同的显示文字
+    private formatLocalLink(file: TFile, notePath: string, link: WebDAVLink): string {
+        const { fileManager } = this.host.app;
+        const isWikilink = fileManager.generateMarkdownLink(file, notePath).replace(/^!/, '').startsWith('[[');
+
+        let alias: string;
+        if (link.isEmbed) {
+            const size = getLinkSize(link.text);
+            const alt = getLinkAlt(link.text);
+            alias = isWikilink ? size : (size ? `${alt}|${size}` : alt);
+        } else {
+            alias = link.text !== file.name ? link.text : '';
+        }
+
+        const localLink = fileManager.generateMarkdownLink(file, notePath, undefined, alias || undefined).replace(/^!/, '');
+        return (link.isEmbed ? '!' : '') + localLink;
+    }
+}
+
+// 先列出将要下载的文件，确认后执行并显示结果
+export class DownloadModal extends Modal {
+    downloader: AttachmentDownloader;
+    scopeLabel: string;
+    plan: DownloadEntry[];
+    running = false;
+
+    constructor(app: App, downloader: AttachmentDownloader, scopeLabel: string, plan: DownloadEntry[]) {
+        super(app);
+        this.downloader = downloader;
+        this.scopeLabel = scopeLabel;
+        this.plan = plan;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.createEl('h2', { text: '下载 WebDAV 附件到仓库' });
+        contentEl.createEl('p', { text: `范围: ${this.scopeLabel}` });
+
+        if (this.plan.length === 0) {
+            contentEl.createEl('p', { text: '未找到 WebDAV 链接。' });
+            return;
+        }
+
+        contentEl.createEl('p', { text: `共 ${this.plan.length} 个 WebDAV 文件将被下载，笔记中的链接将改写为本地链接。` });
+        this.renderList(contentEl, this.plan.map(entry => entry.remotePath));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('取消')
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText('开始下载')
+                .setCta()
+                .onClick(() => this.run()));
+    }
+
+    async run() {
+        if (this.running) return;
+        this.running = true;
+
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '正在下载...' });
+        const progressEl = contentEl.createEl('p');
+
+        const result = await this.downloader.execute(this.plan, (done, total) => {
+            progressEl.setText(`${done} / ${total}`);
+        });
+
+        contentEl.empty();
+        contentEl.createEl('h2', { text: '下载完成' });
+        contentEl.createEl('p', { text: `成功 ${result.downloaded.length} 个，失败 ${result.failures.length} 个。` });
+        if (result.failures.length > 0) {
+            contentEl.createEl('h4', { text: '失败项' });
+            this.renderList(contentEl, result.failures.map(failure => `${failure.entry.remotePath}: ${failure.error}`));
+        }
+        new Notice(`WebDAV 附件下载完成: 成功 ${result.downloaded.length} 个，失败 ${result.failures.length} 个`);
+        this.running = false;
+    }
+
+    // 列表过长时只显示前 200 项
+    renderList(containerEl: HTMLElement, lines: string[]) {
+        const list = containerEl.createEl('ul', {
+            attr: { style: 'max-height: 300px; overflow-y: auto; font-size: 0.85em; word-break: break-all;' }
+        });
+        lines.slice(0, 200).forEach(line => list.createEl('li', { text: line }));
+        if (lines.length > 200) {
+            list.createEl('li', { text: `…还有 ${lines.length - 200} 项` });
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
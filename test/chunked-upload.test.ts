@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DOMParser } from '@xmldom/xmldom';
+import { ChunkedUploadState, ChunkedUploadUnsupportedError, getTemporaryPath, resolveChunkedProtocol, uploadChunked } from '../chunked-upload';
+import { WebDAVClient, WebDAVRequest, WebDAVResponse } from '../webdav-client';
+
+(globalThis as unknown as { DOMParser: unknown }).DOMParser = DOMParser;
+
+const BASE_URL = 'https://dav.example.com/dav/';
+const LOCAL_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'chunked-upload-'));
+process.on('exit', () => fs.rmSync(LOCAL_DIR, { recursive: true, force: true }));
+
+// 内存中的 WebDAV 服务器，rangeSupport 为 false 时模拟忽略 Content-Range、用每一块覆盖整个文件的服务器
+function memoryServer(rangeSupport: boolean) {
+    const files = new Map<string, Buffer>();
+    const methods: string[] = [];
+    const transport = async (request: WebDAVRequest): Promise<WebDAVResponse> => {
+        const remotePath = decodeURIComponent(request.url.slice(BASE_URL.length - 1));
+        methods.push(`${request.method} ${remotePath}`);
+        const respond = (status: number, text = '') => ({ status, headers: {}, arrayBuffer: new TextEncoder().encode(text).buffer });
+
+        if (request.method === 'PUT') {
+            const data = Buffer.from(request.body as ArrayBuffer);
+            const range = request.headers['Content-Range'];
+            const offset = range && rangeSupport ? Number(range.match(/bytes (\d+)-/)![1]) : 0;
+            const current = offset > 0 ? files.get(remotePath) || Buffer.alloc(0) : Buffer.alloc(0);
+            files.set(remotePath, Buffer.concat([current.subarray(0, offset), data]));
+            return respond(201);
+        }
+        if (request.method === 'PROPFIND') {
+            const file = files.get(remotePath);
+            if (!file) return respond(404);
+            return respond(207, `<d:multistatus xmlns:d="DAV:"><d:response><d:href>/dav${encodeURI(remotePath)}</d:href>
+                <d:propstat><d:prop><d:resourcetype/><d:getcontentlength>${file.length}</d:getcontentlength></d:prop></d:propstat>
+                </d:response></d:multistatus>`);
+        }
+        if (request.method === 'MOVE') {
+            const destination = decodeURIComponent(request.headers['Destination'].slice(BASE_URL.length - 1));
+            files.set(destination, files.get(remotePath)!);
+            files.delete(remotePath);
+            return respond(201);
+        }
+        if (request.method === 'DELETE') {
+            files.delete(remotePath);
+            return respond(204);
+        }
+        return respond(405);
+    };
+    return { files, methods, client: new WebDAVClient({ webdavUrl: BASE_URL, username: 'u', password: 'p' }, transport) };
+}
+
+function localFile(size: number): { localPath: string; content: Buffer } {
+    const content = Buffer.alloc(size, 0);
+    for (let i = 0; i < size; i++) content[i] = i % 251;
+    const localPath = path.join(LOCAL_DIR, `${size}.bin`);
+    fs.writeFileSync(localPath, content);
+    return { localPath, content };
+}
+
+function contentRangeState(): ChunkedUploadState {
+    return { protocol: 'content-range', chunkSize: 4, uploadedBytes: 0, transferId: '' };
+}
+
+test('resolveChunkedProtocol enables auto chunking only for Nextcloud urls', () => {
+    assert.strictEqual(resolveChunkedProtocol('off', 'https://cloud.example.com/remote.php/dav/files/alice/'), null);
+    assert.strictEqual(resolveChunkedProtocol('auto', 'https://cloud.example.com/remote.php/dav/files/alice/'), 'nextcloud');
+    assert.strictEqual(resolveChunkedProtocol('auto', BASE_URL), null);
+    assert.strictEqual(resolveChunkedProtocol('content-range', BASE_URL), 'content-range');
+});
+
+test('content-range upload writes a temporary file and moves it into place', async () => {
+    const server = memoryServer(true);
+    const { localPath, content } = localFile(10);
+    const state = contentRangeState();
+
+    const completed = await uploadChunked(server.client, BASE_URL, {
+        localPath, remotePath: '/a/big.bin', size: content.length, state,
+        onProgress: async () => {
+            // 上传过程中目标路径始终不存在不完整的文件
+            assert.strictEqual(server.files.has('/a/big.bin'), false);
+        },
+        isCancelled: () => false
+    });
+
+    assert.strictEqual(completed, true);
+    assert.deepStrictEqual(server.files.get('/a/big.bin'), content);
+    assert.deepStrictEqual([...server.files.keys()], ['/a/big.bin']);
+    assert.ok(server.methods.includes(`MOVE ${getTemporaryPath('/a/big.bin', state.transferId)}`));
+});
+
+test('content-range upload deletes the temporary file when cancelled', async () => {
+    const server = memoryServer(true);
+    const { localPath, content } = localFile(10);
+    let chunks = 0;
+
+    const completed = await uploadChunked(server.client, BASE_URL, {
+        localPath, remotePath: '/big.bin', size: content.length, state: contentRangeState(),
+        onProgress: async () => { chunks++; },
+        isCancelled: () => chunks >= 1
+    });
+
+    assert.strictEqual(completed, false);
+    assert.strictEqual(server.files.size, 0);
+});
+
+test('content-range upload stops after the first ranged chunk on servers without support', async () => {
+    const server = memoryServer(false);
+    const { localPath, content } = localFile(12);
+    const state = contentRangeState();
+
+    await assert.rejects(uploadChunked(server.client, BASE_URL, {
+        localPath, remotePath: '/big.bin', size: content.length, state,
+        onProgress: async () => undefined,
+        isCancelled: () => false
+    }), ChunkedUploadUnsupportedError);
+
+    assert.strictEqual(server.methods.filter(m => m.startsWith('PUT')).length, 2);
+    assert.strictEqual(server.files.size, 0);
+    assert.strictEqual(state.uploadedBytes, 0);
+});
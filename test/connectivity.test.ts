@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { ConnectivityMonitor } from '../connectivity';
+import { WebDAVClient, WebDAVRequest, WebDAVResponse } from '../webdav-client';
+
+(globalThis as unknown as { window: unknown }).window = globalThis;
+
+// reachable 为 false 时模拟断网，返回的数组记录每次探测
+function server(state: { reachable: boolean }) {
+    const requests: WebDAVRequest[] = [];
+    const client = new WebDAVClient({ webdavUrl: 'https://dav.example.com/', username: 'u', password: 'p' }, async (request): Promise<WebDAVResponse> => {
+        requests.push(request);
+        if (!state.reachable) throw new Error('ECONNREFUSED');
+        // 服务器返回错误状态也说明网络是通的
+        return { status: 403, headers: {}, arrayBuffer: new ArrayBuffer(0) };
+    });
+    return { client, requests };
+}
+
+test('probe records the state and emits change only when it flips', async () => {
+    const state = { reachable: false };
+    const { client } = server(state);
+    const monitor = new ConnectivityMonitor({ clients: new Map([['', client]]) });
+    let changes = 0;
+    monitor.on('change', () => changes++);
+
+    assert.strictEqual(monitor.isFresh(), false);
+    assert.strictEqual(await monitor.probe(), false);
+    assert.strictEqual(monitor.isOnline(), false);
+    assert.strictEqual(monitor.isFresh(), true);
+
+    state.reachable = true;
+    assert.strictEqual(await monitor.probe(), true);
+    assert.strictEqual(await monitor.probe(), true);
+    assert.strictEqual(changes, 2);
+});
+
+test('check only probes servers whose state is unknown or stale unless forced', async () => {
+    const a = server({ reachable: true });
+    const b = server({ reachable: false });
+    const monitor = new ConnectivityMonitor({ clients: new Map([['', a.client], ['b', b.client]]) });
+
+    monitor.reportOnline('');
+    assert.strictEqual(await monitor.check(), 1);
+    assert.strictEqual(a.requests.length, 0);
+    assert.strictEqual(b.requests.length, 1);
+    assert.strictEqual(monitor.isOnline('b'), false);
+
+    await monitor.check();
+    assert.strictEqual(b.requests.length, 1);
+
+    await monitor.check(true);
+    assert.strictEqual(a.requests.length, 1);
+    assert.strictEqual(b.requests.length, 2);
+});
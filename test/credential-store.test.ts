@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { CredentialStore, CredentialStorage } from '../credential-store';
+
+function createSettings() {
+    return {
+        password: 'default-secret',
+        servers: [{ id: 'nas', password: 'nas-secret' }],
+        sharePassword: 'share-secret',
+        credentialStorage: 'plain' as CredentialStorage,
+        encryptedPasswords: {} as Record<string, string>,
+        passphraseSalt: ''
+    };
+}
+
+test('seal blanks passwords in the saved copy without touching the settings in memory', () => {
+    const settings = createSettings();
+    const store = new CredentialStore({ settings });
+    store.setMode('passphrase', 'correct horse');
+
+    const sealed = store.seal(settings);
+
+    assert.strictEqual(sealed.password, '');
+    assert.strictEqual(sealed.servers[0].password, '');
+    assert.strictEqual(sealed.sharePassword, '');
+    assert.deepStrictEqual(Object.keys(sealed.encryptedPasswords).sort(), ['', '#share', 'nas']);
+    assert.ok(!Object.values(sealed.encryptedPasswords).includes('nas-secret'));
+    assert.strictEqual(settings.password, 'default-secret');
+    assert.strictEqual(settings.servers[0].password, 'nas-secret');
+    assert.deepStrictEqual(settings.encryptedPasswords, {});
+
+    // 密码未变化时沿用原密文
+    assert.deepStrictEqual(store.seal(settings).encryptedPasswords, sealed.encryptedPasswords);
+});
+
+test('passwords sealed with a passphrase stay locked until the right passphrase is entered', () => {
+    const original = createSettings();
+    const writer = new CredentialStore({ settings: original });
+    writer.setMode('passphrase', 'correct horse');
+    const saved = writer.seal(original);
+
+    const settings = JSON.parse(JSON.stringify(saved)) as typeof saved;
+    const store = new CredentialStore({ settings });
+    assert.strictEqual(store.load(), false);
+    assert.ok(store.needsUnlock());
+    assert.strictEqual(settings.password, '');
+
+    assert.strictEqual(store.unlock('wrong'), false);
+    assert.ok(store.needsUnlock());
+    assert.strictEqual(settings.servers[0].password, '');
+
+    assert.strictEqual(store.unlock('correct horse'), true);
+    assert.ok(!store.needsUnlock());
+    assert.strictEqual(settings.password, 'default-secret');
+    assert.strictEqual(settings.servers[0].password, 'nas-secret');
+    assert.strictEqual(settings.sharePassword, 'share-secret');
+});
+
+test('sealing while locked keeps the existing ciphertexts', () => {
+    const original = createSettings();
+    const writer = new CredentialStore({ settings: original });
+    writer.setMode('passphrase', 'correct horse');
+    const saved = writer.seal(original);
+
+    const settings = JSON.parse(JSON.stringify(saved)) as typeof saved;
+    const store = new CredentialStore({ settings });
+    store.load();
+
+    assert.deepStrictEqual(store.seal(settings).encryptedPasswords, saved.encryptedPasswords);
+});
+
+test('load reports plain-text passwords left in settings and falls back to plain without a keychain', () => {
+    const settings = { ...createSettings(), credentialStorage: 'keychain' as CredentialStorage };
+    const store = new CredentialStore({ settings });
+
+    assert.strictEqual(store.load(), false);
+    assert.strictEqual(settings.credentialStorage, 'plain');
+
+    const passphrase = { ...createSettings(), credentialStorage: 'passphrase' as CredentialStorage };
+    assert.strictEqual(new CredentialStore({ settings: passphrase }).load(), true);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compareWithRemote, computeFileHashes } from '../file-hash';
+import { WebDAVResource } from '../webdav-client';
+
+const DATA = new TextEncoder().encode('hello webdav').buffer;
+
+function resource(overrides: Partial<WebDAVResource>): WebDAVResource {
+    return { path: '/a.txt', name: 'a.txt', isCollection: false, size: DATA.byteLength, lastModified: null, etag: '', contentType: '', checksums: '', ...overrides };
+}
+
+test('computeFileHashes gives the same result for memory and disk input', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-hash-'));
+    try {
+        const localPath = path.join(dir, 'a.txt');
+        fs.writeFileSync(localPath, Buffer.from(DATA));
+        const fromMemory = await computeFileHashes('', DATA);
+        const fromDisk = await computeFileHashes(localPath);
+
+        assert.deepStrictEqual(fromDisk, fromMemory);
+        assert.strictEqual(fromMemory.size, DATA.byteLength);
+        assert.strictEqual(fromMemory.sha256, crypto.createHash('sha256').update('hello webdav').digest('hex'));
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
+test('compareWithRemote prefers the strongest checksum the server provides', async () => {
+    const hashes = await computeFileHashes('', DATA);
+
+    assert.strictEqual(compareWithRemote(hashes, resource({ size: 1 })), false);
+    assert.strictEqual(compareWithRemote(hashes, resource({ checksums: `SHA1:${hashes.sha1} MD5:0000` })), true);
+    assert.strictEqual(compareWithRemote(hashes, resource({ checksums: `sha256:${'0'.repeat(64)} SHA1:${hashes.sha1}` })), false);
+    assert.strictEqual(compareWithRemote(hashes, resource({ checksums: `MD5:${hashes.md5.toUpperCase()}` })), true);
+});
+
+test('compareWithRemote only trusts an ETag that matches the MD5', async () => {
+    const hashes = await computeFileHashes('', DATA);
+
+    assert.strictEqual(compareWithRemote(hashes, resource({ etag: hashes.md5 })), true);
+    assert.strictEqual(compareWithRemote(hashes, resource({ etag: 'f'.repeat(32) })), null);
+    assert.strictEqual(compareWithRemote(hashes, resource({ etag: '5e8a-61b2' })), null);
+});
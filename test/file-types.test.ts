@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { getExtensionForMime, getFileType, getMimeType, isImageFile } from '../file-types';
+import { parseNextcloudUrl } from '../webdav-client';
+import { getNextcloudUploadsUrl } from '../chunked-upload';
+
+test('file types and MIME types come from the same extension table', () => {
+    assert.strictEqual(getFileType('a/B.JPG'), 'image');
+    assert.strictEqual(getFileType('clip.webm'), 'video');
+    assert.strictEqual(getFileType('notes.zip'), 'archive');
+    assert.strictEqual(getFileType('unknown.xyz'), 'other');
+    assert.strictEqual(isImageFile('photo.avif'), true);
+    assert.strictEqual(isImageFile('doc.pdf'), false);
+
+    assert.strictEqual(getMimeType('/a/b.svg'), 'image/svg+xml');
+    assert.strictEqual(getMimeType('b.bin'), 'application/octet-stream');
+    assert.strictEqual(getMimeType('b.bin', 'text/plain'), 'text/plain');
+    assert.strictEqual(getExtensionForMime('image/jpeg'), 'jpg');
+    assert.strictEqual(getExtensionForMime('application/x-unknown'), '');
+});
+
+test('parseNextcloudUrl understands user, legacy and sub-folder installs', () => {
+    assert.deepStrictEqual(parseNextcloudUrl('https://cloud.example.com/remote.php/dav/files/alice/notes'), {
+        origin: 'https://cloud.example.com', basePath: '', user: 'alice', rootPath: '/notes'
+    });
+    assert.deepStrictEqual(parseNextcloudUrl('https://example.com/nextcloud/remote.php/webdav/'), {
+        origin: 'https://example.com', basePath: '/nextcloud', user: '', rootPath: '/'
+    });
+    assert.strictEqual(parseNextcloudUrl('https://dav.example.com/dav/'), null);
+
+    assert.strictEqual(getNextcloudUploadsUrl('https://cloud.example.com/remote.php/dav/files/a%20b/'), 'https://cloud.example.com/remote.php/dav/uploads/a%20b');
+    assert.strictEqual(getNextcloudUploadsUrl('https://example.com/remote.php/webdav/'), null);
+});
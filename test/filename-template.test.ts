@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { moment } from 'obsidian';
+import { renderFileNameTemplate, sanitizeFileName, templateNeedsHash } from '../filename-template';
+
+const CONTEXT = { originalName: 'My Photo.PNG', noteName: 'Daily', hash: 'abcdef0123456789' };
+
+test('renderFileNameTemplate fills name, ext, note, date and hash variables', () => {
+    assert.strictEqual(renderFileNameTemplate('{name}.{ext}', CONTEXT), 'My Photo.PNG');
+    assert.strictEqual(renderFileNameTemplate('{note}-{hash}.{ext}', CONTEXT), 'Daily-abcdef01.PNG');
+    assert.strictEqual(renderFileNameTemplate('{hash:4}_{unknown}.{ext}', CONTEXT), 'abcd_{unknown}.PNG');
+    assert.strictEqual(renderFileNameTemplate('{date:YYYY}-{name}.{ext}', CONTEXT), `${moment().format('YYYY')}-My Photo.PNG`);
+    assert.match(renderFileNameTemplate('{uuid}.{ext}', CONTEXT), /^[0-9a-f-]{36}\.PNG$/);
+});
+
+test('renderFileNameTemplate drops the trailing dot and falls back to the original name', () => {
+    assert.strictEqual(renderFileNameTemplate('{name}.{ext}', { ...CONTEXT, originalName: 'README' }), 'README');
+    assert.strictEqual(renderFileNameTemplate('', CONTEXT), 'My Photo.PNG');
+    assert.strictEqual(renderFileNameTemplate('{hash}', { ...CONTEXT, hash: '' }), 'My Photo.PNG');
+});
+
+test('sanitizeFileName replaces reserved and control characters, collapses spaces and trims dots', () => {
+    assert.strictEqual(sanitizeFileName('a/b\\c:d*e?f"g<h>i|j#k%l'), 'a_b_c_d_e_f_g_h_i_j_k_l');
+    assert.strictEqual(sanitizeFileName('  ..name   with\tspaces.. '), 'name with_spaces');
+    assert.strictEqual(sanitizeFileName('x'.repeat(300)).length, 200);
+});
+
+test('templateNeedsHash detects hash variables only', () => {
+    assert.strictEqual(templateNeedsHash('{name}-{hash:8}.{ext}'), true);
+    assert.strictEqual(templateNeedsHash('{hash}'), true);
+    assert.strictEqual(templateNeedsHash('{name}-{hashes}.{ext}'), false);
+});
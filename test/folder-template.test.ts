@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { moment } from 'obsidian';
+import { renderFolderTemplate } from '../folder-template';
+
+const CONTEXT = { vaultFolder: 'Projects/Alpha', noteName: 'Plan', fileName: 'diagram.png' };
+
+test('renderFolderTemplate defaults to the note folder', () => {
+    assert.strictEqual(renderFolderTemplate('', CONTEXT), 'Projects/Alpha');
+    assert.strictEqual(renderFolderTemplate('{vaultFolder}', { ...CONTEXT, vaultFolder: '' }), '');
+});
+
+test('renderFolderTemplate fills date, file type and note variables', () => {
+    const now = moment();
+    assert.strictEqual(renderFolderTemplate('{year}/{month}/{day}', CONTEXT), `${now.format('YYYY')}/${now.format('MM')}/${now.format('DD')}`);
+    assert.strictEqual(renderFolderTemplate('{date:YYYY-MM}/{fileType}', CONTEXT), `${now.format('YYYY-MM')}/image`);
+    assert.strictEqual(renderFolderTemplate('{fileType}/{noteName}', { ...CONTEXT, fileName: 'clip.mp4' }), 'video/Plan');
+    assert.strictEqual(renderFolderTemplate('{fileType}', { ...CONTEXT, fileName: 'data.bin' }), 'other');
+});
+
+test('renderFolderTemplate reads frontmatter fields and drops empty levels', () => {
+    const frontmatter: Record<string, unknown> = { project: 'Alpha/Beta', tags: ['work', 'draft'], empty: null };
+    assert.strictEqual(renderFolderTemplate('{fm.project}/{fm.tags}', { ...CONTEXT, frontmatter }), 'Alpha/Beta/work');
+    assert.strictEqual(renderFolderTemplate('/{fm.missing}/{fm.empty}/assets/', { ...CONTEXT, frontmatter }), 'assets');
+    assert.strictEqual(renderFolderTemplate('{vaultFolder}/{fm.client}', { ...CONTEXT, frontmatter: { client: 'A:B?' } }), 'Projects/Alpha/A_B_');
+    assert.strictEqual(renderFolderTemplate('{unknown}', CONTEXT), '{unknown}');
+});
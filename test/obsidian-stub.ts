@@ -0,0 +1,40 @@
+// Obsidian 内置的 moment 与 npm 上的 moment 相同
+export const moment: typeof import('moment') = require('moment');
+
+// 测试中没有 Obsidian 运行时，WebDAVClient 必须通过注入的传输层发出请求
+export function requestUrl(): never {
+    throw new Error('requestUrl is not available in tests');
+}
+
+// 事件基类只需要支持订阅与触发
+export class Events {
+    private handlers = new Map<string, ((...data: unknown[]) => unknown)[]>();
+
+    on(name: string, callback: (...data: unknown[]) => unknown) {
+        this.handlers.set(name, [...(this.handlers.get(name) || []), callback]);
+    }
+
+    trigger(name: string, ...data: unknown[]) {
+        for (const callback of this.handlers.get(name) || []) callback(...data);
+    }
+}
+
+// 测试中只记录提示内容
+export class Notice {
+    static messages: string[] = [];
+
+    constructor(message: string) {
+        Notice.messages.push(message);
+    }
+}
+
+// 弹窗与设置项只在界面中使用，测试只需要能被继承
+export class Modal {
+    app: unknown;
+
+    constructor(app: unknown) {
+        this.app = app;
+    }
+}
+
+export class Setting {}
@@ -0,0 +1,40 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+
+// 打包 test/*.test.ts 后用 node --test 运行；obsidian 只有类型定义，替换为 test/obsidian-stub.ts
+const testDir = path.dirname(new URL(import.meta.url).pathname);
+const entryPoints = fs.readdirSync(testDir)
+    .filter(file => file.endsWith(".test.ts"))
+    .map(file => path.join(testDir, file));
+const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "webdav-uploader-test-"));
+
+const obsidianStub = {
+    name: "obsidian-stub",
+    setup(build) {
+        build.onResolve({ filter: /^obsidian$/ }, () => ({ path: path.join(testDir, "obsidian-stub.ts") }));
+    },
+};
+
+try {
+    await esbuild.build({
+        entryPoints,
+        bundle: true,
+        platform: "node",
+        format: "cjs",
+        target: "node16",
+        outdir,
+        logLevel: "warning",
+        // Electron 只在 Obsidian 中存在，测试中 require 失败时按不可用处理
+        external: ["electron"],
+        plugins: [obsidianStub],
+    });
+    const files = fs.readdirSync(outdir).map(file => path.join(outdir, file));
+    const result = spawnSync(process.execPath, ["--test", ...files], { stdio: "inherit" });
+    process.exitCode = result.status ?? 1;
+} finally {
+    fs.rmSync(outdir, { recursive: true, force: true });
+}
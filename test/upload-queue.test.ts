@@ -0,0 +1,128 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { App } from 'obsidian';
+import { UploadQueue, UploadQueueItem } from '../upload-queue';
+import { WebDAVClient, WebDAVRequest, WebDAVResponse } from '../webdav-client';
+
+(globalThis as unknown as { window: unknown }).window = globalThis;
+
+// putStatus 为 0 时模拟断网；暂存文件保存在内存中的仓库
+function createQueue(state: { putStatus: number; online: boolean }) {
+    const puts: WebDAVRequest[] = [];
+    const vaultFiles = new Map<string, ArrayBuffer>();
+    const completed: UploadQueueItem[] = [];
+    const replaced: [string, string, string][] = [];
+
+    const client = new WebDAVClient({ webdavUrl: 'https://dav.example.com/', username: 'u', password: 'p' }, async (request): Promise<WebDAVResponse> => {
+        const respond = (status: number) => ({ status, headers: {}, arrayBuffer: new ArrayBuffer(0) });
+        if (request.method === 'PROPFIND') return respond(404);
+        if (request.method === 'MKCOL') return respond(201);
+        puts.push(request);
+        if (state.putStatus === 0) throw new Error('ECONNREFUSED');
+        return respond(state.putStatus);
+    });
+
+    const host = {
+        app: {
+            vault: {
+                adapter: {
+                    exists: async (filePath: string) => filePath === '.staging' || vaultFiles.has(filePath),
+                    mkdir: async (): Promise<void> => undefined,
+                    writeBinary: async (filePath: string, data: ArrayBuffer) => { vaultFiles.set(filePath, data); },
+                    readBinary: async (filePath: string) => vaultFiles.get(filePath)!,
+                    remove: async (filePath: string) => { vaultFiles.delete(filePath); }
+                }
+            }
+        } as unknown as App,
+        settings: {
+            uploadConcurrency: 1,
+            uploadMaxRetries: 1,
+            uploadQueue: [] as UploadQueueItem[],
+            chunkedUploadMode: 'off' as const,
+            chunkedUploadThreshold: 10,
+            chunkSize: 5
+        },
+        getClient: () => client,
+        saveSettings: async (): Promise<void> => undefined,
+        replaceInNote: async (notePath: string, search: string, replacement: string) => {
+            replaced.push([notePath, search, replacement]);
+            return true;
+        },
+        onUploadComplete: async (item: UploadQueueItem) => { completed.push(item); },
+        resolveDeferred: async () => true,
+        isServerOnline: () => state.online,
+        reportOffline: () => { state.online = false; }
+    };
+
+    const queue = new UploadQueue(host, '.staging');
+    return { queue, puts, vaultFiles, completed, replaced, items: () => host.settings.uploadQueue };
+}
+
+// 等待后台上传流程结束
+async function settle(condition: () => boolean) {
+    for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+    }
+    assert.ok(condition(), 'condition not reached');
+}
+
+function upload() {
+    return { fileName: 'a.png', remotePath: '/img/a.png', notePath: 'note.md', linkText: '![a.png](https://dav.example.com/img/a.png)', data: new Uint8Array([1, 2, 3]).buffer };
+}
+
+test('content without a local path is staged, uploaded and the placeholder replaced', async () => {
+    const state = { putStatus: 201, online: true };
+    const { queue, puts, vaultFiles, completed, replaced, items } = createQueue(state);
+    queue.start();
+
+    const item = await queue.enqueue(upload());
+    assert.strictEqual(vaultFiles.has(item.stagedPath), true);
+    await settle(() => completed.length === 1);
+    queue.stop();
+
+    assert.strictEqual(puts[0].url, 'https://dav.example.com/img/a.png');
+    assert.deepStrictEqual(replaced, [['note.md', item.placeholder, item.linkText]]);
+    assert.strictEqual(vaultFiles.size, 0);
+    assert.strictEqual(items().length, 0);
+});
+
+test('server errors are retried with backoff until the retry limit', async () => {
+    const state = { putStatus: 500, online: true };
+    const { queue, puts, items } = createQueue(state);
+    queue.start();
+
+    const before = Date.now();
+    const item = await queue.enqueue(upload());
+    await settle(() => item.status === 'pending' && item.attempts === 1);
+    assert.ok(item.nextAttemptAt >= before + 2000, 'first retry waits at least 2 s');
+
+    item.nextAttemptAt = 0;
+    queue.resume();
+    await settle(() => item.status === 'failed');
+    queue.stop();
+
+    assert.strictEqual(puts.length, 2);
+    assert.strictEqual(items()[0].attempts, 2);
+});
+
+test('network errors keep the item waiting without using up retries until the server is back', async () => {
+    const state = { putStatus: 0, online: true };
+    const { queue, puts, completed } = createQueue(state);
+    queue.start();
+
+    const item = await queue.enqueue(upload());
+    await settle(() => !state.online && item.status === 'pending');
+    assert.strictEqual(item.attempts, 0);
+
+    // 离线期间不会再尝试上传
+    queue.resume();
+    assert.strictEqual(puts.length, 1);
+
+    state.online = true;
+    state.putStatus = 201;
+    queue.resume();
+    await settle(() => completed.length === 1);
+    queue.stop();
+
+    assert.strictEqual(puts.length, 2);
+});
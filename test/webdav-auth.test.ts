@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { createAuthenticator, isAuthConfigured, parseDigestChallenge } from '../webdav-auth';
+import { WebDAVClient, WebDAVRequest, WebDAVResponse } from '../webdav-client';
+
+const md5 = (value: string) => crypto.createHash('md5').update(value).digest('hex');
+
+test('parseDigestChallenge picks the Digest part and prefers qop=auth', () => {
+    assert.deepStrictEqual(parseDigestChallenge('Basic realm="x", Digest realm="dav", nonce="n1", qop="auth-int,auth", opaque="o", algorithm=SHA-256'), {
+        realm: 'dav', nonce: 'n1', opaque: 'o', algorithm: 'SHA-256', qop: 'auth'
+    });
+    assert.deepStrictEqual(parseDigestChallenge('Digest realm="dav", nonce=abc'), {
+        realm: 'dav', nonce: 'abc', opaque: '', algorithm: 'MD5', qop: ''
+    });
+    assert.strictEqual(parseDigestChallenge('Digest realm="dav"'), null);
+    assert.strictEqual(parseDigestChallenge('Basic realm="dav"'), null);
+});
+
+test('digest authenticator answers the challenge with the RFC 2069 response', () => {
+    const auth = createAuthenticator({ authMode: 'digest', username: 'alice', password: 'secret' });
+    assert.deepStrictEqual(auth.getHeaders('GET', 'https://dav.example.com/a.png'), {});
+    assert.strictEqual(auth.handleChallenge('Digest realm="dav", nonce="n1"'), true);
+
+    const header = auth.getHeaders('GET', 'https://dav.example.com/a%20b.png?x=1')['Authorization'];
+    const expected = md5(`${md5('alice:dav:secret')}:n1:${md5('GET:/a%20b.png?x=1')}`);
+    assert.match(header, /uri="\/a%20b\.png\?x=1"/);
+    assert.match(header, new RegExp(`response="${expected}"`));
+});
+
+test('digest challenge is answered by retrying once with credentials', async () => {
+    const requests: WebDAVRequest[] = [];
+    const responses: Partial<WebDAVResponse>[] = [
+        { status: 401, headers: { 'www-authenticate': 'Digest realm="dav", nonce="n1", qop="auth", algorithm=MD5' } },
+        { status: 200 }
+    ];
+    const client = new WebDAVClient({ webdavUrl: 'https://dav.example.com/', username: 'alice', password: 'secret', authMode: 'digest' }, async (request) => {
+        requests.push(request);
+        return { status: 200, headers: {}, arrayBuffer: new ArrayBuffer(0), ...responses.shift() };
+    });
+
+    await client.get('/a.png');
+
+    assert.strictEqual(requests.length, 2);
+    assert.strictEqual(requests[0].headers['Authorization'], undefined);
+    assert.match(requests[1].headers['Authorization'], /^Digest username="alice", realm="dav", nonce="n1"/);
+});
+
+test('isAuthConfigured requires the credentials of each mode', () => {
+    assert.strictEqual(isAuthConfigured({ username: 'a', password: '' }), false);
+    assert.strictEqual(isAuthConfigured({ username: 'a', password: 'p' }), true);
+    assert.strictEqual(isAuthConfigured({ authMode: 'none', username: '', password: '' }), true);
+    assert.strictEqual(isAuthConfigured({ authMode: 'bearer', username: '', password: 't' }), true);
+    assert.strictEqual(isAuthConfigured({ authMode: 'header', username: '', password: 'v' }), false);
+    assert.strictEqual(isAuthConfigured({ authMode: 'header', authHeaderName: 'X-Key', username: '', password: 'v' }), true);
+});
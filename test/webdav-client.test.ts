@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { DOMParser } from '@xmldom/xmldom';
+import { WebDAVClient, WebDAVError, WebDAVRequest, WebDAVResponse, normalizeFolder } from '../webdav-client';
+
+// Node 中没有 DOMParser，PROPFIND 的响应解析使用 xmldom
+(globalThis as unknown as { DOMParser: unknown }).DOMParser = DOMParser;
+
+const CONFIG = { webdavUrl: 'https://dav.example.com/remote.php/dav/files/alice/', username: 'alice', password: 'secret' };
+
+// 记录所有请求，并按顺序返回预设的响应
+function stubTransport(responses: Partial<WebDAVResponse>[]) {
+    const requests: WebDAVRequest[] = [];
+    const transport = async (request: WebDAVRequest): Promise<WebDAVResponse> => {
+        requests.push(request);
+        const response = responses.shift();
+        if (!response) throw new Error('unexpected request');
+        return { status: 200, headers: {}, arrayBuffer: new ArrayBuffer(0), ...response };
+    };
+    return { requests, transport };
+}
+
+function body(text: string): ArrayBuffer {
+    return new TextEncoder().encode(text).buffer;
+}
+
+test('request encodes the remote path and sends basic credentials', async () => {
+    const { requests, transport } = stubTransport([{ status: 201 }]);
+    const client = new WebDAVClient(CONFIG, transport);
+
+    await client.put('/notes/a b#1.png', new ArrayBuffer(3), 'image/png');
+
+    assert.strictEqual(requests.length, 1);
+    assert.strictEqual(requests[0].method, 'PUT');
+    assert.strictEqual(requests[0].url, 'https://dav.example.com/remote.php/dav/files/alice/notes/a%20b%231.png');
+    assert.strictEqual(requests[0].headers['Authorization'], 'Basic ' + Buffer.from('alice:secret').toString('base64'));
+    assert.strictEqual(requests[0].headers['Content-Type'], 'image/png');
+});
+
+test('request turns error statuses and transport failures into WebDAVError', async () => {
+    const { transport } = stubTransport([{ status: 404 }]);
+    const client = new WebDAVClient(CONFIG, transport);
+    await assert.rejects(client.get('/missing.png'), (error: WebDAVError) => error instanceof WebDAVError && error.status === 404);
+
+    const offline = new WebDAVClient(CONFIG, async () => { throw new Error('ECONNREFUSED'); });
+    await assert.rejects(offline.get('/a.png'), (error: WebDAVError) => error instanceof WebDAVError && error.status === 0);
+});
+
+test('propfind sends Depth and parses the multistatus response', async () => {
+    const xml = `<?xml version="1.0"?>
+<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+    <d:response>
+        <d:href>/remote.php/dav/files/alice/notes/</d:href>
+        <d:propstat><d:prop><d:resourcetype><d:collection/></d:resourcetype></d:prop></d:propstat>
+    </d:response>
+    <d:response>
+        <d:href>/remote.php/dav/files/alice/notes/a%20b.png</d:href>
+        <d:propstat><d:prop>
+            <d:resourcetype/>
+            <d:getcontentlength>1234</d:getcontentlength>
+            <d:getetag>"abc"</d:getetag>
+            <d:getcontenttype>image/png</d:getcontenttype>
+            <oc:checksums><oc:checksum>SHA1:0123</oc:checksum></oc:checksums>
+        </d:prop></d:propstat>
+    </d:response>
+</d:multistatus>`;
+    const { requests, transport } = stubTransport([{ status: 207, arrayBuffer: body(xml) }]);
+    const client = new WebDAVClient(CONFIG, transport);
+
+    const resources = await client.propfind('/notes', '1');
+
+    assert.strictEqual(requests[0].method, 'PROPFIND');
+    assert.strictEqual(requests[0].headers['Depth'], '1');
+    assert.deepStrictEqual(resources.map(r => [r.path, r.isCollection]), [['/notes', true], ['/notes/a b.png', false]]);
+    assert.strictEqual(resources[1].name, 'a b.png');
+    assert.strictEqual(resources[1].size, 1234);
+    assert.strictEqual(resources[1].etag, 'abc');
+    assert.strictEqual(resources[1].checksums, 'SHA1:0123');
+});
+
+test('normalizeFolder adds the leading slash, drops trailing ones and keeps root distinct from unset', () => {
+    assert.strictEqual(normalizeFolder(' notes/img// '), '/notes/img');
+    assert.strictEqual(normalizeFolder('/notes'), '/notes');
+    assert.strictEqual(normalizeFolder('/'), '/');
+    assert.strictEqual(normalizeFolder('//', '/_trash'), '/');
+    assert.strictEqual(normalizeFolder('', '/_trash'), '/_trash');
+    assert.strictEqual(normalizeFolder('  '), '/');
+});
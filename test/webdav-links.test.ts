@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import * as assert from 'assert';
+import { WebDAVClient } from '../webdav-client';
+import { App } from 'obsidian';
+import { collectReferences, findReferencedUrls, findWebDAVLinks, getLinkAlt, getLinkKey, getLinkSize } from '../webdav-links';
+
+const client = new WebDAVClient({ webdavUrl: 'https://dav.example.com/files/', username: 'u', password: 'p' }, async () => {
+    throw new Error('no requests expected');
+});
+const resolveClient = (url: string) => client.isWebDAVUrl(url) ? client : null;
+
+test('findWebDAVLinks finds embeds and links that belong to a server', () => {
+    const content = [
+        '![photo|300](https://dav.example.com/files/img/a%20b.png)',
+        '[report](<https://dav.example.com/files/docs/r.pdf>)',
+        '[elsewhere](https://example.org/x.png)'
+    ].join('\n');
+
+    const links = findWebDAVLinks(content, resolveClient);
+
+    assert.deepStrictEqual(links.map(link => [link.isEmbed, link.text, link.remotePath]), [
+        [true, 'photo|300', '/img/a b.png'],
+        [false, 'report', '/docs/r.pdf']
+    ]);
+    assert.strictEqual(links[0].index, 0);
+    assert.strictEqual(links[1].original, '[report](<https://dav.example.com/files/docs/r.pdf>)');
+    assert.strictEqual(getLinkKey(links[0]), client.getUrl('/img/a b.png'));
+});
+
+test('getLinkSize and getLinkAlt split the alt text from the size', () => {
+    assert.strictEqual(getLinkSize('photo|300'), '300');
+    assert.strictEqual(getLinkSize('photo | 300x200 '), '300x200');
+    assert.strictEqual(getLinkSize('a|b'), '');
+    assert.strictEqual(getLinkAlt('photo|300x200'), 'photo');
+    assert.strictEqual(getLinkAlt('|300'), '');
+    assert.strictEqual(getLinkAlt('plain'), 'plain');
+});
+
+test('findReferencedUrls counts every way a note can reference a remote file', () => {
+    const content = [
+        '![a](https://dav.example.com/files/a.png)',
+        '[ref]: <https://dav.example.com/files/b.pdf>',
+        '<img src="https://dav.example.com/files/c.png?x=1&amp;y=2">',
+        'see https://dav.example.com/files/d%20e.txt for details',
+        'shared at https://cloud.example.com/s/abc',
+        '![other](https://example.org/f.png)'
+    ].join('\n');
+    const shareLinks = { 'https://cloud.example.com/s/abc': client.getUrl('/shared.png') };
+
+    const urls = findReferencedUrls(content, resolveClient, shareLinks);
+
+    assert.deepStrictEqual(urls.sort(), [
+        client.getUrl('/a.png'),
+        client.getUrl('/b.pdf'),
+        client.getUrl('/c.png'),
+        client.getUrl('/d e.txt'),
+        client.getUrl('/shared.png')
+    ].sort());
+});
+
+test('findReferencedUrls reads text, link nodes and edge labels of canvases', () => {
+    const canvas = JSON.stringify({
+        nodes: [
+            { type: 'text', text: '![x](https://dav.example.com/files/x.png)' },
+            { type: 'link', url: 'https://dav.example.com/files/y.pdf' }
+        ],
+        edges: [{ label: 'https://dav.example.com/files/z.mp4' }]
+    });
+
+    assert.deepStrictEqual(findReferencedUrls(canvas, resolveClient, {}, 'canvas').sort(), [
+        client.getUrl('/x.png'), client.getUrl('/y.pdf'), client.getUrl('/z.mp4')
+    ].sort());
+});
+
+test('collectReferences maps each remote file to the notes and canvases that use it', async () => {
+    const files: Record<string, string> = {
+        'a.md': '![](https://dav.example.com/files/a.png)',
+        'b.md': 'https://dav.example.com/files/a.png and https://dav.example.com/files/a.png',
+        'c.canvas': JSON.stringify({ nodes: [{ url: 'https://dav.example.com/files/a.png' }] }),
+        'd.txt': 'https://dav.example.com/files/ignored.png'
+    };
+    const app = {
+        vault: {
+            getFiles: () => Object.keys(files).map(filePath => ({ path: filePath, extension: filePath.split('.').pop() })),
+            cachedRead: async (file: { path: string }) => files[file.path]
+        }
+    } as unknown as App;
+
+    const references = await collectReferences(app, resolveClient, {});
+
+    assert.deepStrictEqual(Array.from(references.entries()), [[client.getUrl('/a.png'), ['a.md', 'b.md', 'c.canvas']]]);
+});
@@ -0,0 +1,101 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { UploadQueue, UploadQueueItem, UploadStatus } from './upload-queue';
+
+export const VIEW_TYPE_UPLOAD_QUEUE = 'webdav-upload-queue';
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+    active: '⬆️ 上传中',
+    pending: '⏳ 等待中',
+    failed: '❌ 失败'
+};
+
+export class UploadQueueView extends ItemView {
+    queue: UploadQueue;
+
+    constructor(leaf: WorkspaceLeaf, queue: UploadQueue) {
+        super(leaf);
+        this.queue = queue;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_UPLOAD_QUEUE;
+    }
+
+    getDisplayText(): string {
+        return 'WebDAV 上传队列';
+    }
+
+    getIcon(): string {
+        return 'upload-cloud';
+    }
+
+    async onOpen() {
+        this.registerEvent(this.queue.on('change', () => this.render()));
+        this.render();
+    }
+
+    render() {
+        const container = this.contentEl;
+        container.empty();
+        container.createEl('h4', { text: 'WebDAV 上传队列' });
+
+        const items = this.queue.items;
+        if (items.length === 0) {
+            container.createEl('p', {
+                text: '队列为空',
+                attr: { style: 'color: var(--text-muted); font-style: italic;' }
+            });
+            return;
+        }
+
+        if (items.some(i => i.status === 'failed')) {
+            const retryAllBtn = container.createEl('button', { text: '重试全部失败项', attr: { style: 'margin-bottom: 10px;' } });
+            retryAllBtn.onclick = () => this.queue.retryAllFailed();
+        }
+
+        // 按 上传中 → 等待中 → 失败 的顺序显示
+        for (const status of ['active', 'pending', 'failed'] as UploadStatus[]) {
+            const group = items.filter(i => i.status === status);
+            if (group.length === 0) continue;
+
+            container.createEl('h5', { text: `${STATUS_LABELS[status]} (${group.length})` });
+            group.forEach(item => this.renderItem(container, item));
+        }
+    }
+
+    renderItem(container: HTMLElement, item: UploadQueueItem) {
+        const row = container.createDiv({
+            attr: { style: 'padding: 6px 8px; margin-bottom: 6px; border-radius: 4px; background: var(--background-secondary);' }
+        });
+
+        row.createDiv({ text: item.fileName, attr: { style: 'font-weight: 600; word-break: break-all;' } });
+        row.createDiv({
+            text: item.remotePath,
+            attr: { style: 'font-size: 0.85em; color: var(--text-muted); word-break: break-all;' }
+        });
+
+        const details: string[] = [];
+        if (item.chunkState && item.size > 0) {
+            details.push(`已上传 ${Math.floor(item.chunkState.uploadedBytes / item.size * 100)}%`);
+        }
+        if (item.attempts > 0) details.push(`尝试 ${item.attempts} 次`);
+        if (item.status === 'pending' && item.nextAttemptAt > Date.now()) {
+            details.push(`${Math.ceil((item.nextAttemptAt - Date.now()) / 1000)} 秒后重试`);
+        }
+        if (item.error) details.push(item.error);
+        if (details.length > 0) {
+            row.createDiv({
+                text: details.join(' · '),
+                attr: { style: `font-size: 0.85em; color: ${item.error ? 'var(--text-error)' : 'var(--text-muted)'};` }
+            });
+        }
+
+        const actions = row.createDiv({ attr: { style: 'display: flex; gap: 6px; margin-top: 4px;' } });
+        if (item.status === 'failed') {
+            const retryBtn = actions.createEl('button', { text: '重试' });
+            retryBtn.onclick = () => this.queue.retry(item.id);
+        }
+        const cancelBtn = actions.createEl('button', { text: '取消' });
+        cancelBtn.onclick = () => this.queue.cancel(item.id);
+    }
+}
@@ -0,0 +1,377 @@
+import { App, Events, Notice } from 'obsidian';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WebDAVClient } from './webdav-client';
+import { FileHashes } from './file-hash';
+import { formatSize } from './format';
+import { ChunkedUploadMode, ChunkedUploadState, ChunkedUploadUnsupportedError, resolveChunkedProtocol, uploadChunked } from './chunked-upload';
+import { isNetworkError } from './connectivity';
+
+export type UploadStatus = 'pending' | 'active' | 'failed';
+
+export interface UploadQueueItem {
+    id: string;
+    fileName: string;
+    remotePath: string;
+    serverId?: string;    // 上传到的服务器，为空时使用默认服务器
+    localPath: string;    // 被拖入文件的本地绝对路径，上传时直接从磁盘读取
+    stagedPath: string;   // 没有本地路径的内容（如粘贴的截图）暂存在插件目录中的位置，离线时暂存在仓库中
+    size: number;
+    notePath: string;     // 插入占位链接的笔记，从远程文件浏览器上传时为空
+    placeholder: string;  // 上传期间插入笔记的占位链接
+    linkText: string;     // 上传完成后替换占位链接的最终链接
+    status: UploadStatus;
+    attempts: number;
+    nextAttemptAt: number;
+    error: string;
+    chunkState?: ChunkedUploadState | null; // 分块上传进度，用于断点续传
+    chunkUnsupported?: boolean; // 服务器不支持分块写入，改用普通 PUT
+    sha256?: string;      // 文件内容哈希，上传完成后写入去重索引
+    originalSize?: number; // 图片处理前的大小，未处理时为 0
+    deferred?: boolean;   // 离线时加入，上传前需要补做云端去重检查
+}
+
+interface UploadQueueHost {
+    app: App;
+    settings: {
+        uploadConcurrency: number;
+        uploadMaxRetries: number;
+        uploadQueue: UploadQueueItem[];
+        chunkedUploadMode: ChunkedUploadMode;
+        chunkedUploadThreshold: number; // MB
+        chunkSize: number; // MB
+    };
+    getClient(serverId?: string): WebDAVClient;
+    saveSettings(): Promise<void>;
+    replaceInNote(notePath: string, search: string, replacement: string): Promise<boolean>;
+    onUploadComplete(item: UploadQueueItem): Promise<void>;
+    // 上传前对离线加入的条目做去重检查，可能修改 remotePath/linkText；返回 false 表示云端已有相同文件，无需上传
+    resolveDeferred(item: UploadQueueItem): Promise<boolean>;
+    isServerOnline(serverId?: string): boolean;
+    reportOffline(serverId?: string): void;
+}
+
+export interface NewUploadItem {
+    fileName: string;
+    remotePath: string;
+    serverId?: string;
+    notePath: string;
+    linkText: string;
+    localPath?: string;
+    data?: ArrayBuffer; // 没有本地路径时需要提供文件内容
+    sha256?: string;
+    originalSize?: number;
+    stagedPath?: string;  // 已暂存在仓库中的文件（离线时），上传完成后删除
+    placeholder?: string; // 自定义占位链接，例如离线时指向暂存文件的本地嵌入
+    deferred?: boolean;
+}
+
+// 上传前按设置计算出的目标，拖入上传与附件迁移共用
+export interface PreparedUpload {
+    serverId: string;
+    fileName: string;     // 经过图片处理与文件名模板后的文件名
+    remotePath: string;
+    isLocalLink: boolean; // 文件路径模式下文件不在同步文件夹内，只插入本地链接而不上传
+    data?: ArrayBuffer;   // 经过图片处理或没有本地路径时的文件内容
+    hashes: FileHashes | null; // 文件名模板需要哈希时已计算的内容哈希
+    originalSize: number; // 图片处理前的大小，未处理时为 0
+}
+
+// 重试间隔：2s, 4s, 8s ... 最长 5 分钟
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+export class UploadQueue extends Events {
+    private host: UploadQueueHost;
+    private stagingDir: string;
+    private running = new Map<string, { cancelled: boolean }>();
+    private timer: number | null = null;
+    private started = false;
+
+    constructor(host: UploadQueueHost, stagingDir: string) {
+        super();
+        this.host = host;
+        this.stagingDir = stagingDir;
+    }
+
+    get items(): UploadQueueItem[] {
+        return this.host.settings.uploadQueue;
+    }
+
+    start() {
+        if (this.started) return;
+        // 上次退出时正在上传的条目重新排队
+        for (const item of this.items) {
+            if (item.status === 'active') item.status = 'pending';
+        }
+        this.started = true;
+        this.pump();
+    }
+
+    stop() {
+        this.started = false;
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // 加入队列并返回需要立即插入笔记的占位链接
+    async enqueue(upload: NewUploadItem): Promise<UploadQueueItem> {
+        const id = Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+        let stagedPath = upload.stagedPath || '';
+        if (!upload.localPath && !stagedPath) {
+            if (!upload.data) throw new Error('缺少文件内容');
+            const adapter = this.host.app.vault.adapter;
+            if (!await adapter.exists(this.stagingDir)) {
+                await adapter.mkdir(this.stagingDir);
+            }
+            stagedPath = `${this.stagingDir}/${id}`;
+            await adapter.writeBinary(stagedPath, upload.data);
+        }
+
+        const item: UploadQueueItem = {
+            id,
+            fileName: upload.fileName,
+            remotePath: upload.remotePath,
+            serverId: upload.serverId || '',
+            localPath: upload.localPath || '',
+            stagedPath,
+            size: upload.data ? upload.data.byteLength : 0,
+            notePath: upload.notePath,
+            placeholder: upload.placeholder || `[⏳ 上传中: ${upload.fileName}](webdav-upload://${id})`,
+            linkText: upload.linkText,
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: 0,
+            error: '',
+            chunkState: null,
+            sha256: upload.sha256 || '',
+            originalSize: upload.originalSize || 0,
+            deferred: upload.deferred || false
+        };
+
+        this.items.push(item);
+        await this.changed();
+        return item;
+    }
+
+    async cancel(id: string) {
+        const item = this.items.find(i => i.id === id);
+        if (!item) return;
+
+        // requestUrl 无法中断，正在进行的请求会继续完成，但结果将被忽略；
+        // 分块上传会在下一块开始前停止
+        const token = this.running.get(id);
+        if (token) token.cancelled = true;
+
+        await this.remove(item);
+        await this.host.replaceInNote(item.notePath, item.placeholder, '');
+        await this.changed();
+    }
+
+    async retry(id: string) {
+        const item = this.items.find(i => i.id === id);
+        if (!item || item.status === 'active') return;
+        item.status = 'pending';
+        item.attempts = 0;
+        item.nextAttemptAt = 0;
+        item.error = '';
+        await this.changed();
+    }
+
+    async retryAllFailed() {
+        for (const item of this.items) {
+            if (item.status !== 'failed') continue;
+            item.status = 'pending';
+            item.attempts = 0;
+            item.nextAttemptAt = 0;
+            item.error = '';
+        }
+        await this.changed();
+    }
+
+    // 服务器恢复连接后立即处理等待中的条目
+    resume() {
+        this.pump();
+    }
+
+    // 笔记重命名后更新占位链接所在的路径
+    async handleRename(newPath: string, oldPath: string) {
+        let updated = false;
+        for (const item of this.items) {
+            if (item.notePath === oldPath) {
+                item.notePath = newPath;
+                updated = true;
+            }
+        }
+        if (updated) await this.host.saveSettings();
+    }
+
+    private async changed() {
+        await this.host.saveSettings();
+        this.trigger('change');
+        this.pump();
+    }
+
+    private async remove(item: UploadQueueItem) {
+        this.host.settings.uploadQueue = this.items.filter(i => i.id !== item.id);
+        if (item.stagedPath) {
+            const adapter = this.host.app.vault.adapter;
+            if (await adapter.exists(item.stagedPath)) {
+                await adapter.remove(item.stagedPath);
+            }
+        }
+    }
+
+    private pump() {
+        if (!this.started) return;
+
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const now = Date.now();
+        const concurrency = Math.max(1, this.host.settings.uploadConcurrency);
+        for (const item of this.items) {
+            if (this.running.size >= concurrency) break;
+            if (item.status === 'pending' && item.nextAttemptAt <= now && this.host.isServerOnline(item.serverId)) {
+                this.process(item);
+            }
+        }
+
+        // 为下一个等待重试的条目安排定时器；离线服务器的条目等待恢复连接后由 resume 唤醒
+        const waiting = this.items.filter(i => i.status === 'pending' && i.nextAttemptAt > now && this.host.isServerOnline(i.serverId));
+        if (waiting.length > 0) {
+            const next = Math.min(...waiting.map(i => i.nextAttemptAt));
+            this.timer = window.setTimeout(() => {
+                this.timer = null;
+                this.pump();
+            }, next - now);
+        }
+    }
+
+    private async process(item: UploadQueueItem) {
+        const token = { cancelled: false };
+        this.running.set(item.id, token);
+        item.status = 'active';
+        item.attempts++;
+        this.trigger('change');
+
+        try {
+            const client = this.host.getClient(item.serverId);
+            let upload = true;
+            if (item.deferred) {
+                upload = await this.host.resolveDeferred(item);
+                item.deferred = false;
+            }
+
+            const remoteFolder = path.posix.dirname(item.remotePath);
+            if (upload && !await client.exists(remoteFolder)) {
+                await client.createDirectory(remoteFolder);
+            }
+
+            if (!upload) {
+                // 云端已有相同内容的文件，直接链接
+            } else if (this.shouldUploadChunked(item, client) && await this.uploadChunked(item, client, token)) {
+                // 分块上传已完成
+            } else if (token.cancelled) {
+                return;
+            } else {
+                const data = await this.readData(item);
+                item.size = data.byteLength;
+                await client.put(item.remotePath, data);
+            }
+            if (token.cancelled) return;
+
+            await this.remove(item);
+            await this.host.onUploadComplete(item);
+            this.trigger('uploaded', item);
+            // 经过图片处理时显示处理前后的大小
+            const sizeInfo = item.originalSize ? ` (${formatSize(item.originalSize)} → ${formatSize(item.size)})` : '';
+            // 没有关联笔记的上传（例如从远程文件浏览器上传）无需替换占位链接
+            const replaced = !item.notePath || await this.host.replaceInNote(item.notePath, item.placeholder, item.linkText);
+            if (replaced) {
+                new Notice(`上传成功: ${item.fileName}${sizeInfo}`);
+            } else {
+                new Notice(`上传成功: ${item.fileName}${sizeInfo}，但未在笔记中找到占位链接`);
+            }
+        } catch (error) {
+            if (token.cancelled) return;
+            console.error('WebDAV Upload Error:', error);
+            item.error = error.message || String(error);
+
+            if (isNetworkError(error)) {
+                // 无法连接服务器时不计入重试次数，恢复连接后自动继续
+                item.status = 'pending';
+                item.attempts--;
+                item.error = '无法连接服务器，恢复连接后自动上传';
+                this.host.reportOffline(item.serverId);
+            } else if (item.attempts > this.host.settings.uploadMaxRetries) {
+                item.status = 'failed';
+                new Notice(`上传失败: ${item.fileName} (${item.error})`);
+            } else {
+                item.status = 'pending';
+                item.nextAttemptAt = Date.now() + Math.min(RETRY_BASE_DELAY * Math.pow(2, item.attempts - 1), RETRY_MAX_DELAY);
+            }
+        } finally {
+            this.running.delete(item.id);
+            await this.changed();
+        }
+    }
+
+    // 返回 false 表示上传被取消，或服务器不支持分块写入、需要改用普通 PUT
+    private async uploadChunked(item: UploadQueueItem, client: WebDAVClient, token: { cancelled: boolean }): Promise<boolean> {
+        try {
+            return await uploadChunked(client, client.getBaseUrl(), {
+                localPath: item.localPath,
+                remotePath: item.remotePath,
+                size: item.size,
+                state: item.chunkState!,
+                onProgress: async () => {
+                    await this.host.saveSettings();
+                    this.trigger('change');
+                },
+                isCancelled: () => token.cancelled
+            });
+        } catch (error) {
+            if (!(error instanceof ChunkedUploadUnsupportedError)) throw error;
+            // 永久性错误，不再重试分块，直接回退到单次 PUT
+            console.warn('WebDAV chunked upload unsupported, falling back to a single PUT:', item.remotePath);
+            item.chunkState = null;
+            item.chunkUnsupported = true;
+            return false;
+        }
+    }
+
+    // 超过阈值的本地文件使用分块上传，首次判断时初始化分块进度
+    private shouldUploadChunked(item: UploadQueueItem, client: WebDAVClient): boolean {
+        if (item.chunkState) return true;
+        if (!item.localPath || item.chunkUnsupported) return false;
+
+        const settings = this.host.settings;
+        const protocol = resolveChunkedProtocol(settings.chunkedUploadMode, client.getBaseUrl());
+        if (!protocol) return false;
+
+        item.size = fs.statSync(item.localPath).size;
+        if (item.size < settings.chunkedUploadThreshold * 1024 * 1024) return false;
+
+        item.chunkState = {
+            protocol,
+            chunkSize: Math.max(1, settings.chunkSize) * 1024 * 1024,
+            uploadedBytes: 0,
+            transferId: ''
+        };
+        return true;
+    }
+
+    private async readData(item: UploadQueueItem): Promise<ArrayBuffer> {
+        if (item.stagedPath) {
+            return this.host.app.vault.adapter.readBinary(item.stagedPath);
+        }
+        const buffer = await fs.promises.readFile(item.localPath);
+        return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+    }
+}
@@ -0,0 +1,162 @@
+import * as crypto from 'crypto';
+
+// basic: 用户名 + 密码（也适用于应用密码）；digest: HTTP Digest；bearer: Bearer 令牌；
+// header: 自定义请求头（例如反向代理要求的 API Key）；none: 不发送认证信息
+export type AuthMode = 'basic' | 'digest' | 'bearer' | 'header' | 'none';
+
+export const AUTH_MODE_LABELS: Record<AuthMode, string> = {
+    basic: 'Basic（用户名 + 密码 / 应用密码）',
+    digest: 'Digest（用户名 + 密码）',
+    bearer: 'Bearer 令牌',
+    header: '自定义请求头',
+    none: '无需认证'
+};
+
+export interface AuthConfig {
+    authMode?: AuthMode;     // 旧版本没有该字段，视为 basic
+    username: string;
+    password: string;        // bearer/header 模式下为令牌或请求头的值
+    authHeaderName?: string; // header 模式下的请求头名称
+}
+
+// 为每个请求生成认证请求头
+export interface Authenticator {
+    getHeaders(method: string, url: string): Record<string, string>;
+    // 收到 401 后根据 WWW-Authenticate 更新状态，返回 true 表示应带上新的认证信息重试一次
+    handleChallenge(challenge: string): boolean;
+}
+
+// 各模式需要填写的凭据，用于判断服务器是否已配置
+export function isAuthConfigured(config: AuthConfig): boolean {
+    switch (config.authMode || 'basic') {
+        case 'none':
+            return true;
+        case 'bearer':
+            return !!config.password;
+        case 'header':
+            return !!config.authHeaderName && !!config.password;
+        default:
+            return !!config.username && !!config.password;
+    }
+}
+
+export function createAuthenticator(config: AuthConfig): Authenticator {
+    switch (config.authMode || 'basic') {
+        case 'none':
+            return new StaticAuth({});
+        case 'bearer':
+            return new StaticAuth({ 'Authorization': `Bearer ${config.password}` });
+        case 'header':
+            return new StaticAuth(config.authHeaderName ? { [config.authHeaderName]: config.password } : {});
+        case 'digest':
+            return new DigestAuth(config.username, config.password);
+        default:
+            return new StaticAuth({ 'Authorization': `Basic ${btoa(unescape(encodeURIComponent(`${config.username}:${config.password}`)))}` });
+    }
+}
+
+class StaticAuth implements Authenticator {
+    private headers: Record<string, string>;
+
+    constructor(headers: Record<string, string>) {
+        this.headers = headers;
+    }
+
+    getHeaders(): Record<string, string> {
+        return this.headers;
+    }
+
+    handleChallenge(): boolean {
+        return false;
+    }
+}
+
+export interface DigestChallenge {
+    realm: string;
+    nonce: string;
+    opaque: string;
+    algorithm: string;
+    qop: string; // 服务器支持 auth 时为 'auth'，否则为空（RFC 2069 兼容模式）
+}
+
+// RFC 7616：首次请求不带认证，收到质询后保存 nonce，之后的请求直接计算响应，nonce 过期时重新质询
+class DigestAuth implements Authenticator {
+    private username: string;
+    private password: string;
+    private challenge: DigestChallenge | null = null;
+    private nonceCount = 0;
+
+    constructor(username: string, password: string) {
+        this.username = username;
+        this.password = password;
+    }
+
+    getHeaders(method: string, url: string): Record<string, string> {
+        const challenge = this.challenge;
+        if (!challenge) return {};
+
+        let uri = url;
+        try {
+            const parsed = new URL(url);
+            uri = parsed.pathname + parsed.search;
+        } catch (e) {
+            // 保留完整 URL
+        }
+
+        const hashAlgorithm = challenge.algorithm.toUpperCase().startsWith('SHA-256') ? 'sha256' : 'md5';
+        const hash = (value: string) => crypto.createHash(hashAlgorithm).update(value, 'utf8').digest('hex');
+        const cnonce = crypto.randomBytes(8).toString('hex');
+        const nc = ('0000000' + (++this.nonceCount).toString(16)).slice(-8);
+
+        let ha1 = hash(`${this.username}:${challenge.realm}:${this.password}`);
+        if (/-sess$/i.test(challenge.algorithm)) ha1 = hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+        const ha2 = hash(`${method}:${uri}`);
+        const response = challenge.qop
+            ? hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${challenge.qop}:${ha2}`)
+            : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+        const params = [
+            `username="${this.username}"`,
+            `realm="${challenge.realm}"`,
+            `nonce="${challenge.nonce}"`,
+            `uri="${uri}"`,
+            `algorithm=${challenge.algorithm}`,
+            `response="${response}"`
+        ];
+        if (challenge.qop) params.push(`qop=${challenge.qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+        if (challenge.opaque) params.push(`opaque="${challenge.opaque}"`);
+        return { 'Authorization': `Digest ${params.join(', ')}` };
+    }
+
+    handleChallenge(header: string): boolean {
+        const challenge = parseDigestChallenge(header);
+        if (!challenge) return false;
+        this.challenge = challenge;
+        this.nonceCount = 0;
+        return true;
+    }
+}
+
+// 解析 WWW-Authenticate 中的 Digest 质询，服务器同时提供多种方式时只取 Digest 部分
+export function parseDigestChallenge(header: string): DigestChallenge | null {
+    const match = header.match(/Digest\s+(.*)$/i);
+    if (!match) return null;
+
+    const params: Record<string, string> = {};
+    const regex = /(\w+)=(?:"([^"]*)"|([^,\s]*))/g;
+    let param;
+    while ((param = regex.exec(match[1])) !== null) {
+        const key = param[1].toLowerCase();
+        if (!(key in params)) params[key] = param[2] !== undefined ? param[2] : param[3];
+    }
+    if (!params.nonce) return null;
+
+    const qops = (params.qop || '').split(',').map(qop => qop.trim());
+    return {
+        realm: params.realm || '',
+        nonce: params.nonce,
+        opaque: params.opaque || '',
+        algorithm: params.algorithm || 'MD5',
+        qop: qops.indexOf('auth') !== -1 ? 'auth' : ''
+    };
+}
@@ -0,0 +1,342 @@
+import { requestUrl } from 'obsidian';
+import { AuthConfig, Authenticator, createAuthenticator } from './webdav-auth';
+
+export interface WebDAVClientConfig extends AuthConfig {
+    webdavUrl: string;
+}
+
+export interface WebDAVRequest {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body?: string | ArrayBuffer;
+}
+
+export interface WebDAVResponse {
+    status: number;
+    headers: Record<string, string>; // 统一为小写键名
+    arrayBuffer: ArrayBuffer;
+}
+
+// 传输层：负责真正发出 HTTP 请求，可替换为本地测试服务器或其他实现
+export type WebDAVTransport = (request: WebDAVRequest) => Promise<WebDAVResponse>;
+
+// PROPFIND 解析得到的单个资源
+export interface WebDAVResource {
+    path: string;          // 相对 WebDAV 根目录的路径（已解码），以 / 开头
+    name: string;
+    isCollection: boolean;
+    size: number;
+    lastModified: Date | null;
+    etag: string;
+    contentType: string;
+    checksums: string;     // ownCloud/Nextcloud 的 oc:checksums，例如 "SHA1:... MD5:..."
+}
+
+export class WebDAVError extends Error {
+    status: number; // 0 表示网络错误，未收到服务器响应
+    method: string;
+    url: string;
+
+    constructor(method: string, url: string, status: number, message?: string) {
+        super(message || `WebDAV ${method} ${url} 失败 (${status || '网络错误'})`);
+        this.name = 'WebDAVError';
+        this.method = method;
+        this.url = url;
+        this.status = status;
+    }
+}
+
+// 默认传输层：使用 Obsidian 的 requestUrl 绕过 CORS
+export const requestUrlTransport: WebDAVTransport = async (request) => {
+    const response = await requestUrl({
+        url: request.url,
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        throw: false
+    });
+
+    const headers: Record<string, string> = {};
+    for (const key of Object.keys(response.headers || {})) {
+        headers[key.toLowerCase()] = response.headers[key];
+    }
+
+    return {
+        status: response.status,
+        headers,
+        arrayBuffer: response.arrayBuffer
+    };
+};
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+    <d:prop>
+        <d:resourcetype/>
+        <d:getcontentlength/>
+        <d:getlastmodified/>
+        <d:getetag/>
+        <d:getcontenttype/>
+        <oc:checksums/>
+    </d:prop>
+</d:propfind>`;
+
+export class WebDAVClient {
+    private baseUrl: string;
+    private basePathname: string;
+    private auth: Authenticator;
+    private transport: WebDAVTransport;
+
+    constructor(config: WebDAVClientConfig, transport: WebDAVTransport = requestUrlTransport) {
+        this.baseUrl = config.webdavUrl.replace(/\/+$/, '');
+        this.auth = createAuthenticator(config);
+        this.transport = transport;
+
+        try {
+            this.basePathname = decodeURIComponent(new URL(this.baseUrl).pathname).replace(/\/+$/, '');
+        } catch (e) {
+            this.basePathname = '';
+        }
+    }
+
+    // 将远程路径编码为完整 URL，与插入笔记中的链接格式一致
+    getUrl(remotePath: string): string {
+        const cleanPath = remotePath.startsWith('/') ? remotePath : '/' + remotePath;
+        return this.baseUrl + cleanPath.split('/').map(encodeURIComponent).join('/');
+    }
+
+    getBaseUrl(): string {
+        return this.baseUrl;
+    }
+
+    // 判断 URL 是否位于 WebDAV 根目录下（兼容 http/https）
+    isWebDAVUrl(url: string): boolean {
+        if (!this.baseUrl) return false;
+        const httpBase = this.baseUrl.replace(/^https:\/\//, 'http://');
+        const httpsBase = this.baseUrl.replace(/^http:\/\//, 'https://');
+        return [httpBase, httpsBase].some(base => url === base || url.startsWith(base + '/'));
+    }
+
+    // 将 WebDAV URL 还原为远程路径，不属于该服务器时返回 null
+    toRemotePath(url: string): string | null {
+        if (!this.isWebDAVUrl(url)) return null;
+        const rest = url.replace(/^https?:\/\//, '').slice(this.baseUrl.replace(/^https?:\/\//, '').length);
+        const withoutQuery = rest.split(/[?#]/)[0] || '/';
+        try {
+            return decodeURIComponent(withoutQuery);
+        } catch (e) {
+            return withoutQuery;
+        }
+    }
+
+    async request(method: string, pathOrUrl: string, headers: Record<string, string> = {}, body?: string | ArrayBuffer): Promise<WebDAVResponse> {
+        const url = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : this.getUrl(pathOrUrl);
+
+        let response = await this.send(method, url, headers, body);
+        // Digest 等需要质询的认证方式：按服务器返回的质询重试一次
+        if (response.status === 401 && this.auth.handleChallenge(response.headers['www-authenticate'] || '')) {
+            response = await this.send(method, url, headers, body);
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            throw new WebDAVError(method, url, response.status);
+        }
+        return response;
+    }
+
+    private async send(method: string, url: string, headers: Record<string, string>, body?: string | ArrayBuffer): Promise<WebDAVResponse> {
+        try {
+            return await this.transport({
+                url,
+                method,
+                headers: {
+                    ...this.auth.getHeaders(method, url),
+                    ...headers
+                },
+                body
+            });
+        } catch (error) {
+            console.error(`WebDAV Request Failed: ${method} ${url}`, error);
+            throw new WebDAVError(method, url, error?.status || 0, error?.message);
+        }
+    }
+
+    async exists(remotePath: string): Promise<boolean> {
+        return (await this.stat(remotePath)) !== null;
+    }
+
+    async stat(remotePath: string): Promise<WebDAVResource | null> {
+        try {
+            const resources = await this.propfind(remotePath, '0');
+            return resources[0] || null;
+        } catch (error) {
+            if (error instanceof WebDAVError && error.status === 404) return null;
+            throw error;
+        }
+    }
+
+    // 列出目录的直接子项（不包含目录自身）
+    async list(remotePath: string): Promise<WebDAVResource[]> {
+        const self = normalizeFolder(remotePath);
+        const resources = await this.propfind(remotePath, '1');
+        return resources.filter(resource => normalizeFolder(resource.path) !== self);
+    }
+
+    // 递归列出目录下的所有文件（逐级 Depth: 1，兼容禁用 Depth: infinity 的服务器）
+    async walk(remotePath: string): Promise<WebDAVResource[]> {
+        const files: WebDAVResource[] = [];
+        const pending = [remotePath];
+        while (pending.length > 0) {
+            const current = pending.shift()!;
+            for (const resource of await this.list(current)) {
+                if (resource.isCollection) {
+                    pending.push(resource.path);
+                } else {
+                    files.push(resource);
+                }
+            }
+        }
+        return files;
+    }
+
+    async propfind(remotePath: string, depth: '0' | '1'): Promise<WebDAVResource[]> {
+        const response = await this.request('PROPFIND', remotePath, {
+            'Depth': depth,
+            'Content-Type': 'application/xml; charset=utf-8'
+        }, PROPFIND_BODY);
+        return this.parseMultistatus(new TextDecoder().decode(response.arrayBuffer));
+    }
+
+    parseMultistatus(xml: string): WebDAVResource[] {
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+        const resources: WebDAVResource[] = [];
+
+        for (const responseEl of Array.from(doc.getElementsByTagNameNS('DAV:', 'response'))) {
+            const href = getDAVText(responseEl, 'href');
+            if (!href) continue;
+
+            let hrefPath = href;
+            try {
+                hrefPath = decodeURIComponent(new URL(href, this.baseUrl + '/').pathname);
+            } catch (e) {
+                // 保留原始 href
+            }
+
+            let resourcePath = hrefPath.startsWith(this.basePathname) ? hrefPath.slice(this.basePathname.length) : hrefPath;
+            if (!resourcePath.startsWith('/')) resourcePath = '/' + resourcePath;
+
+            const isCollection = responseEl.getElementsByTagNameNS('DAV:', 'collection').length > 0;
+            const lastModified = getDAVText(responseEl, 'getlastmodified');
+            const trimmedPath = resourcePath.replace(/\/+$/, '');
+
+            resources.push({
+                path: trimmedPath || '/',
+                name: trimmedPath.split('/').pop() || '',
+                isCollection,
+                size: parseInt(getDAVText(responseEl, 'getcontentlength') || '0', 10) || 0,
+                lastModified: lastModified ? new Date(lastModified) : null,
+                etag: getDAVText(responseEl, 'getetag').replace(/"/g, ''),
+                contentType: getDAVText(responseEl, 'getcontenttype'),
+                checksums: getText(responseEl, OC_NS, 'checksums')
+            });
+        }
+
+        return resources;
+    }
+
+    // 递归创建目录，已存在的层级会被跳过
+    async createDirectory(remotePath: string) {
+        const parts = remotePath.split('/').filter(p => p);
+        let currentPath = '';
+
+        for (const part of parts) {
+            currentPath += '/' + part;
+            if (await this.exists(currentPath)) continue;
+            try {
+                await this.request('MKCOL', currentPath);
+            } catch (error) {
+                // 405: 目录已存在（可能被并发创建）
+                if (!(error instanceof WebDAVError && error.status === 405)) throw error;
+            }
+        }
+    }
+
+    async put(remotePath: string, data: ArrayBuffer, contentType = 'application/octet-stream') {
+        await this.request('PUT', remotePath, {
+            'Content-Type': contentType
+        }, data);
+    }
+
+    // 下载文件，支持远程路径或完整 URL
+    async get(pathOrUrl: string): Promise<WebDAVResponse> {
+        return this.request('GET', pathOrUrl);
+    }
+
+    async delete(remotePath: string) {
+        await this.request('DELETE', remotePath);
+    }
+
+    async move(fromPath: string, toPath: string, overwrite = false) {
+        await this.request('MOVE', fromPath, {
+            'Destination': this.getUrl(toPath),
+            'Overwrite': overwrite ? 'T' : 'F'
+        });
+    }
+
+    async copy(fromPath: string, toPath: string, overwrite = false) {
+        await this.request('COPY', fromPath, {
+            'Destination': this.getUrl(toPath),
+            'Overwrite': overwrite ? 'T' : 'F'
+        });
+    }
+}
+
+// 将下载的二进制内容转换为 data URL，用于在 <img> 中显示
+export function toDataUrl(response: WebDAVResponse, fallbackType = 'image/png'): Promise<string> {
+    const blob = new Blob([response.arrayBuffer], { type: response.headers['content-type'] || fallbackType });
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+// Nextcloud/ownCloud 的 WebDAV 地址：/remote.php/dav/files/<用户>/ 或旧版的 /remote.php/webdav/，实例可能安装在子目录中
+export interface NextcloudLocation {
+    origin: string;   // 例如 https://cloud.example.com
+    basePath: string; // 实例所在的子目录，例如 /nextcloud，安装在根目录时为空
+    user: string;     // dav/files/<用户> 中的用户名，旧版地址为空
+    rootPath: string; // WebDAV 地址在用户根目录下对应的文件夹，为空表示用户根目录
+}
+
+// 解析 Nextcloud/ownCloud 的 WebDAV 地址，其他服务器返回 null
+export function parseNextcloudUrl(webdavUrl: string): NextcloudLocation | null {
+    let url: URL;
+    try {
+        url = new URL(webdavUrl);
+    } catch (e) {
+        return null;
+    }
+    const match = decodeURIComponent(url.pathname).match(/^(.*?)\/remote\.php\/(?:dav\/files\/([^/]+)|webdav)(\/.*)?$/);
+    if (!match) return null;
+    return { origin: url.origin, basePath: match[1], user: match[2] || '', rootPath: match[3] || '' };
+}
+
+const OC_NS = 'http://owncloud.org/ns';
+
+function getDAVText(parent: Element, localName: string): string {
+    return getText(parent, 'DAV:', localName);
+}
+
+function getText(parent: Element, namespace: string, localName: string): string {
+    const el = parent.getElementsByTagNameNS(namespace, localName)[0];
+    return el?.textContent?.trim() || '';
+}
+
+// 标准化远程文件夹路径：以 / 开头、不以 / 结尾，根目录为 '/'；为空时返回 fallback（例如回收站的默认文件夹）
+export function normalizeFolder(folder: string, fallback = '/'): string {
+    const trimmed = (folder || '').trim().replace(/\/+$/, '');
+    if (!trimmed) return (folder || '').trim() ? '/' : fallback;
+    return trimmed.startsWith('/') ? trimmed : '/' + trimmed;
+}
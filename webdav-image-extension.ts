@@ -1,102 +1,130 @@
 import { EditorView, Decoration, ViewPlugin, ViewUpdate, WidgetType, DecorationSet } from "@codemirror/view";
-import { RangeSetBuilder } from "@codemirror/state";
-import { requestUrl } from "obsidian";
+import { EditorState, Range, Text } from "@codemirror/state";
+import { syntaxTree } from "@codemirror/language";
+import { WebDAVClient } from "./webdav-client";
+import { ImageLoader } from "./image-loader";
+import { getLinkSize } from "./webdav-links";
+import { AttachmentPreviews, getPreviewType } from "./attachment-preview";
 
 interface WebDAVPlugin {
-    settings: {
-        webdavUrl: string;
-        username: string;
-        password: string;
-    }
+    getClientForUrl(url: string): WebDAVClient | null; // 按链接地址匹配服务器
+    imageLoader: ImageLoader; // 与阅读视图共用的延迟加载与缩略图
+    previews: AttachmentPreviews; // 非图片附件的预览
 }
 
-// 简单的内存缓存: URL -> Base64 Data String
-const imageCache = new Map<string, string>();
-// 避免重复请求：正在加载的 URL
-const pendingRequests = new Set<string>();
+// 文档中的一个链接：![alt](url)、![alt][ref]、<img src="url"> 等嵌入，或 [text](url) 普通链接
+interface LinkMatch {
+    from: number;
+    to: number;
+    isEmbed: boolean;
+    url: string;
+    alt: string;
+    width: string;
+    height: string;
+}
 
-class WebDAVImageWidget extends WidgetType {
+// Obsidian 的编辑器使用 HyperMD 风格的解析器，节点名是以 "_" 连接的 token（如 "formatting_inline-code"）；
+// 标准 @lezer/markdown 使用 FencedCode 等节点名。两种命名中代码、注释、公式内的图片语法都不渲染
+const SKIPPED_TOKENS = ['hmd-codeblock', 'inline-code', 'hmd-frontmatter', 'comment', 'math'];
+const SKIPPED_NODES = ['FencedCode', 'CodeBlock', 'InlineCode', 'CodeText', 'Comment', 'CommentBlock'];
+
+// PDF、音视频、文本等非图片附件的嵌入预览
+class AttachmentWidget extends WidgetType {
     constructor(
         readonly url: string,
-        readonly alt: string,
+        readonly name: string,
         readonly plugin: WebDAVPlugin
     ) {
         super();
     }
 
-    eq(other: WebDAVImageWidget) {
-        return other.url === this.url && other.alt === this.alt;
+    eq(other: AttachmentWidget) {
+        return other.url === this.url && other.name === this.name;
     }
 
     toDOM(view: EditorView): HTMLElement {
-        const img = document.createElement("img");
-        img.alt = this.alt;
-        img.setAttribute("src", ""); // 初始设置为空
-        img.style.maxWidth = "100%";
-        img.style.display = "block"; // 块级显示，模仿 Obsidian 行为
+        const container = document.createElement("div");
+        this.plugin.previews.render(container, this.url, this.name);
+        return container;
+    }
 
-        // 如果有缓存，直接使用
-        if (imageCache.has(this.url)) {
-            img.setAttribute("src", imageCache.get(this.url)!);
-            return img;
-        }
+    destroy(dom: HTMLElement) {
+        // 移出编辑器的播放器不再继续播放
+        dom.querySelectorAll("audio, video").forEach(media => (media as HTMLMediaElement).pause());
+    }
+}
 
-        // 标记加载状态
-        img.style.opacity = "0.5";
+// 普通链接后的文件类型图标和大小
+class BadgeWidget extends WidgetType {
+    constructor(
+        readonly url: string,
+        readonly plugin: WebDAVPlugin
+    ) {
+        super();
+    }
 
-        // 启动异步加载
-        this.loadImage(img);
+    eq(other: BadgeWidget) {
+        return other.url === this.url;
+    }
 
-        return img;
+    toDOM(view: EditorView): HTMLElement {
+        return this.plugin.previews.createBadge(this.url);
     }
+}
 
-    async loadImage(img: HTMLImageElement) {
-        // 如果相同 URL 已经在请求中，这里我们还是发起请求，或者可以优化为等待 Promise。
-        // 简单起见，每个 Widget 实例负责自己的加载，但利用全局 cache 避免后续重绘的请求。
+class WebDAVImageWidget extends WidgetType {
+    constructor(
+        readonly image: LinkMatch,
+        readonly plugin: WebDAVPlugin
+    ) {
+        super();
+    }
 
-        try {
-            const auth = btoa(`${this.plugin.settings.username}:${this.plugin.settings.password}`);
-            const response = await requestUrl({
-                url: this.url,
-                method: 'GET',
-                headers: {
-                    'Authorization': `Basic ${auth}`
-                }
-            });
-
-            if (response.status === 200) {
-                const blob = new Blob([response.arrayBuffer], { type: response.headers['content-type'] || 'image/png' });
-                const reader = new FileReader();
-                reader.onloadend = () => {
-                    const base64data = reader.result as string;
-                    //存入缓存
-                    imageCache.set(this.url, base64data);
-                    // 更新图片
-                    img.setAttribute("src", base64data);
-                    img.style.opacity = "1";
-                };
-                reader.readAsDataURL(blob);
-            } else {
-                console.error(`[WebDAV] Failed to load image ${this.url}: status ${response.status}`);
-                img.alt = `Failed to load: ${this.alt} (${response.status})`;
-            }
-        } catch (e) {
-            console.error(`[WebDAV] Failed to load image ${this.url}`, e);
-            img.alt = `Error loading: ${this.alt}`;
-        }
+    eq(other: WebDAVImageWidget) {
+        return other.image.url === this.image.url
+            && other.image.alt === this.image.alt
+            && other.image.width === this.image.width
+            && other.image.height === this.image.height;
+    }
+
+    toDOM(view: EditorView): HTMLElement {
+        const { url, alt, width, height } = this.image;
+        const container = document.createElement("div");
+        const img = container.createEl("img");
+        img.alt = alt;
+        img.style.maxWidth = "100%";
+        img.style.display = "block"; // 块级显示，模仿 Obsidian 行为
+        // 与 Obsidian 的 ![alt|300](url) 相同：只给宽度时按比例缩放
+        if (width) img.setAttribute("width", width);
+        if (height) img.setAttribute("height", height);
+
+        // 进入视口后才加载缩略图；缓存负责合并相同图片的并发请求
+        this.plugin.imageLoader.attach(img, url);
+        return container;
+    }
+
+    destroy(dom: HTMLElement) {
+        // 滚出视口或被编辑掉的图片不再加载，已完成的请求结果仍保留在缓存中
+        const img = dom.querySelector("img");
+        if (img) this.plugin.imageLoader.detach(img);
     }
 }
 
 export function createWebDAVImageExtension(plugin: WebDAVPlugin) {
     return ViewPlugin.fromClass(class {
         decorations: DecorationSet;
+        // 引用式图片的链接定义，只在文档变化时重新收集
+        definitionsDoc: Text | null = null;
+        definitions: Record<string, string> = {};
 
         constructor(view: EditorView) {
             this.decorations = this.buildDecorations(view);
         }
 
         update(update: ViewUpdate) {
-            if (update.docChanged || update.viewportChanged || update.selectionSet) {
+            // 解析器在后台逐步完成时语法树也会变化，此前跳过的范围需要重新判断
+            if (update.docChanged || update.viewportChanged || update.selectionSet
+                || syntaxTree(update.startState) !== syntaxTree(update.state)) {
                 this.decorations = this.buildDecorations(update.view);
             }
         }
@@ -111,69 +139,236 @@ export function createWebDAVImageExtension(plugin: WebDAVPlugin) {
                 return Decoration.none;
             }
 
-            const builder = new RangeSetBuilder<Decoration>();
-            // 获取 WebDAV 基础路径
-            const webdavBase = plugin.settings.webdavUrl.replace(/\/$/, '');
-            const webdavBaseHttp = webdavBase.replace('https://', 'http://');
-
-            // 简单的正则匹配：![alt](url)
-            // 注意：这只是为了演示，并不完美支持所有 Markdown 边缘情况（如嵌套括号）
-            // 如果要完美支持，建议使用 syntaxTree
-            const text = view.state.doc.sliceString(0);
-            const regex = /!\[(.*?)\]\((https?:\/\/.*?)\)/g;
-
-            // 为了高效，只扫描视口范围？
-            // ViewPlugin 通常处理整个文档的装饰器比较方便构建 RangeSet，
-            // 但对于大文档，最好只处理 visibleRanges。
-            // 简单起见，我们遍历 visibleRanges。
+            const decorations: Range<Decoration>[] = [];
+            const definitions = this.getDefinitions(view.state);
+            const seen = new Set<number>(); // 相邻的可见范围可能位于同一行
 
             for (const { from, to } of view.visibleRanges) {
-                const rangeText = view.state.doc.sliceString(from, to);
-                let match;
-                // 重置 lastIndex
-                regex.lastIndex = 0;
-
-                // 正则是在 rangeText 上匹配的，所以索引是相对的
-                while ((match = regex.exec(rangeText)) !== null) {
-                    const start = from + match.index;
-                    const end = start + match[0].length;
-                    const alt = match[1];
-                    const url = match[2];
-
-                    // 检查是否是 WebDAV URL
-                    if (!url.startsWith(webdavBase) && !url.startsWith(webdavBaseHttp)) {
-                        continue;
-                    }
+                for (const link of findLinks(view.state, from, to, definitions)) {
+                    if (seen.has(link.from) || !plugin.getClientForUrl(link.url)) continue;
+                    seen.add(link.from);
 
-                    // 检查光标是否在链接范围内
-                    // 如果光标在范围内，不渲染（显示源码进行编辑）
-                    const selection = view.state.selection;
-                    let hasCursor = false;
-                    for (const range of selection.ranges) {
-                        if (range.from >= start && range.to <= end) {
-                            hasCursor = true;
-                            break;
-                        }
+                    if (!link.isEmbed) {
+                        decorations.push(Decoration.widget({
+                            widget: new BadgeWidget(link.url, plugin),
+                            side: 1
+                        }).range(link.to));
+                        continue;
                     }
 
-                    if (hasCursor) {
-                        continue; // 跳过渲染，显示源码
-                    }
+                    // 光标在链接范围内时不渲染，显示源码进行编辑
+                    const hasCursor = view.state.selection.ranges.some(range => range.from >= link.from && range.to <= link.to);
+                    if (hasCursor) continue;
 
-                    // 添加装饰器：替换原文
-                    builder.add(
-                        start,
-                        end,
-                        Decoration.replace({
-                            widget: new WebDAVImageWidget(url, alt, plugin),
-                        })
-                    );
+                    const widget = getPreviewType(link.url)
+                        ? new AttachmentWidget(link.url, link.alt, plugin)
+                        : new WebDAVImageWidget(link, plugin);
+                    decorations.push(Decoration.replace({ widget }).range(link.from, link.to));
                 }
             }
 
-            return builder.finish();
+            // [![图片](url)](链接) 中图片位于链接内部，按位置排序后再生成
+            return Decoration.set(decorations, true);
+        }
+
+        getDefinitions(state: EditorState): Record<string, string> {
+            if (this.definitionsDoc !== state.doc) {
+                this.definitionsDoc = state.doc;
+                this.definitions = collectDefinitions(state);
+            }
+            return this.definitions;
         }
     }, {
         decorations: v => v.decorations
     });
 }
+
+// 按位置顺序返回范围内所有行中的链接，跳过代码、注释和公式
+function findLinks(state: EditorState, from: number, to: number, definitions: Record<string, string>): LinkMatch[] {
+    const skipped = getSkippedRanges(state, state.doc.lineAt(from).from, state.doc.lineAt(to).to);
+    const isSkipped = (pos: number) => skipped.some(range => pos >= range.from && pos < range.to);
+    const links: LinkMatch[] = [];
+
+    let pos = from;
+    while (pos <= to && pos <= state.doc.length) {
+        const line = state.doc.lineAt(pos);
+        const text = line.text;
+        let index = 0;
+        while (index < text.length) {
+            const link = text.startsWith('![', index) || text[index] === '[' ? parseMarkdownLink(text, index, definitions)
+                : /^<img\b/i.test(text.slice(index, index + 5)) ? parseHtmlImage(text, index)
+                : null;
+            if (link && !isSkipped(line.from + index)) {
+                links.push({ ...link, from: line.from + link.from, to: line.from + link.to });
+                // 普通链接的文字中可能还有图片，继续扫描
+                index = link.isEmbed ? link.to : index + 1;
+            } else {
+                index++;
+            }
+        }
+        pos = line.to + 1;
+    }
+
+    return links;
+}
+
+function getSkippedRanges(state: EditorState, from: number, to: number): { from: number; to: number }[] {
+    const ranges: { from: number; to: number }[] = [];
+    syntaxTree(state).iterate({
+        from,
+        to,
+        enter: node => {
+            const name = node.type.name;
+            if (SKIPPED_NODES.indexOf(name) >= 0 || name.split('_').some(token => SKIPPED_TOKENS.indexOf(token) >= 0)) {
+                ranges.push({ from: node.from, to: node.to });
+                return false;
+            }
+        }
+    });
+    return ranges;
+}
+
+// ![alt](url "title")、![alt][ref]、![alt][] 和 ![alt]，以及不带 ! 的普通链接；alt 中的 |300 或 |300x200 表示尺寸
+function parseMarkdownLink(text: string, start: number, definitions: Record<string, string>): LinkMatch | null {
+    const isEmbed = text[start] === '!';
+    const open = isEmbed ? start + 1 : start;
+    const altEnd = findClosingBracket(text, open);
+    if (altEnd < 0) return null;
+    const rawAlt = text.slice(open + 1, altEnd);
+    // ![[...]] 是 Obsidian 的内部嵌入
+    if (rawAlt.startsWith('[')) return null;
+
+    let url: string | undefined;
+    let end = altEnd + 1;
+    if (text[end] === '(') {
+        const destination = parseDestination(text, end + 1);
+        if (!destination) return null;
+        url = destination.url;
+        end = destination.end;
+    } else if (text[end] === '[') {
+        const labelEnd = findClosingBracket(text, end);
+        if (labelEnd < 0) return null;
+        const label = text.slice(end + 1, labelEnd) || rawAlt;
+        url = definitions[normalizeLabel(label)];
+        end = labelEnd + 1;
+    } else {
+        url = definitions[normalizeLabel(rawAlt)];
+    }
+    if (!url) return null;
+
+    const [width, height] = getLinkSize(rawAlt).split('x');
+    return {
+        from: start,
+        to: end,
+        isEmbed,
+        url,
+        alt: rawAlt.replace(/\|\s*\d+(?:x\d+)?\s*$/, '').trim(),
+        width: width || '',
+        height: height || ''
+    };
+}
+
+// 行内链接的地址部分，支持 <带空格的地址>、成对的括号和反斜杠转义，可带标题；返回 ")" 之后的位置
+function parseDestination(text: string, start: number): { url: string; end: number } | null {
+    let pos = start;
+    while (text[pos] === ' ' || text[pos] === '\t') pos++;
+
+    let url = '';
+    if (text[pos] === '<') {
+        const close = text.indexOf('>', pos + 1);
+        if (close < 0) return null;
+        url = text.slice(pos + 1, close);
+        pos = close + 1;
+    } else {
+        let depth = 0;
+        while (pos < text.length) {
+            const ch = text[pos];
+            if (ch === '\\' && pos + 1 < text.length) {
+                url += text[pos + 1];
+                pos += 2;
+                continue;
+            }
+            if (ch === ' ' || ch === '\t') break;
+            if (ch === '(') depth++;
+            if (ch === ')') {
+                if (depth === 0) break;
+                depth--;
+            }
+            url += ch;
+            pos++;
+        }
+    }
+
+    while (text[pos] === ' ' || text[pos] === '\t') pos++;
+    const titleClose: Record<string, string> = { '"': '"', "'": "'", '(': ')' };
+    if (titleClose[text[pos]]) {
+        const close = text.indexOf(titleClose[text[pos]], pos + 1);
+        if (close < 0) return null;
+        pos = close + 1;
+        while (text[pos] === ' ' || text[pos] === '\t') pos++;
+    }
+
+    if (text[pos] !== ')') return null;
+    return { url, end: pos + 1 };
+}
+
+// <img src="url" alt="..." width="300">
+function parseHtmlImage(text: string, start: number): LinkMatch | null {
+    const close = text.indexOf('>', start);
+    if (close < 0) return null;
+    const tag = text.slice(start, close + 1);
+
+    const attributes: Record<string, string> = {};
+    const regex = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+    let match;
+    while ((match = regex.exec(tag)) !== null) {
+        attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+    }
+    if (!attributes.src) return null;
+
+    return {
+        from: start,
+        to: close + 1,
+        isEmbed: true,
+        url: attributes.src.replace(/&amp;/g, '&'),
+        alt: attributes.alt || '',
+        width: attributes.width || '',
+        height: attributes.height || ''
+    };
+}
+
+// 返回与 text[open] 处 "[" 配对的 "]" 的位置，支持嵌套和转义
+function findClosingBracket(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === '[') {
+            depth++;
+        } else if (ch === ']') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+// 收集 [label]: url 形式的链接定义（代码块中的除外）
+function collectDefinitions(state: EditorState): Record<string, string> {
+    const definitions: Record<string, string> = {};
+    const regex = /^ {0,3}\[([^\]]+)\]:[ \t]*(?:<([^>\n]*)>|(\S+))/gm;
+    const content = state.doc.toString();
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        const label = normalizeLabel(match[1]);
+        if (definitions[label] !== undefined) continue; // 同名定义以第一个为准
+        if (getSkippedRanges(state, match.index, match.index + 1).length > 0) continue;
+        definitions[label] = match[2] ?? match[3];
+    }
+    return definitions;
+}
+
+function normalizeLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
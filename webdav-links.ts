@@ -0,0 +1,131 @@
+import { App } from 'obsidian';
+import { WebDAVClient } from './webdav-client';
+
+// 笔记中的一个 WebDAV 链接，例如 ![alt](https://dav.example.com/a.png)
+export interface WebDAVLink {
+    original: string;   // 完整的链接文本
+    isEmbed: boolean;   // 是否为 ![]() 嵌入
+    text: string;       // 方括号中的文字
+    url: string;
+    remotePath: string; // 已解码的远程路径
+    client: WebDAVClient; // 链接所属服务器的客户端
+    index: number;      // 在笔记内容中的位置
+}
+
+// 根据链接的 URL 找到所属服务器的客户端，不属于任何服务器时返回 null
+export type ClientResolver = (url: string) => WebDAVClient | null;
+
+const MARKDOWN_LINK_REGEX = /(!?)\[([^\]\n]*)\]\(\s*<?(https?:\/\/[^\s)>]+)>?\s*\)/g;
+
+// 查找笔记内容中所有指向 WebDAV 服务器的 Markdown 链接
+export function findWebDAVLinks(content: string, resolveClient: ClientResolver): WebDAVLink[] {
+    const links: WebDAVLink[] = [];
+    const regex = new RegExp(MARKDOWN_LINK_REGEX.source, 'g');
+    let match;
+
+    while ((match = regex.exec(content)) !== null) {
+        const client = resolveClient(match[3]);
+        if (!client) continue;
+        const remotePath = client.toRemotePath(match[3]);
+        if (remotePath === null) continue;
+        links.push({
+            original: match[0],
+            isEmbed: match[1] === '!',
+            text: match[2],
+            url: match[3],
+            remotePath,
+            client,
+            index: match.index
+        });
+    }
+
+    return links;
+}
+
+// 链接指向的远程文件的标准 URL，用于跨笔记、跨服务器比较是否为同一文件
+export function getLinkKey(link: WebDAVLink): string {
+    return link.client.getUrl(link.remotePath);
+}
+
+// 除 Markdown 链接外引用远程文件的写法：引用式链接定义、HTML 的 src/href 属性和纯文本中的地址
+const REFERENCE_DEFINITION_REGEX = /^[ \t]{0,3}\[[^\]\n]+\]:[ \t]*<?(https?:\/\/[^\s>]+)>?/gm;
+const HTML_ATTRIBUTE_REGEX = /\b(?:src|href|data)\s*=\s*["']?(https?:\/\/[^"'\s>]+)/gi;
+const BARE_URL_REGEX = /https?:\/\/[^\s<>"'()[\]]+/g;
+
+// 可能引用远程文件的仓库文件类型：笔记和白板
+export const REFERENCE_EXTENSIONS = ['md', 'canvas'];
+
+// 文件引用的所有远程文件 URL，包括已替换为公开共享链接的文件（shareLinks: 公开链接 -> WebDAV 文件 URL）
+// 删除或清理远程文件前用它判断是否仍被引用，宁可多算不可漏算
+export function findReferencedUrls(content: string, resolveClient: ClientResolver, shareLinks: Record<string, string>, extension = 'md'): string[] {
+    const text = extension === 'canvas' ? getCanvasText(content) : content;
+    const candidates: string[] = [];
+    const patterns: [RegExp, number][] = [
+        [MARKDOWN_LINK_REGEX, 3],
+        [REFERENCE_DEFINITION_REGEX, 1],
+        [HTML_ATTRIBUTE_REGEX, 1],
+        [BARE_URL_REGEX, 0]
+    ];
+    for (const [source, group] of patterns) {
+        const regex = new RegExp(source.source, source.flags);
+        let match;
+        while ((match = regex.exec(text)) !== null) {
+            candidates.push(match[group].replace(/&amp;/g, '&'));
+        }
+    }
+
+    const urls = new Set<string>();
+    for (const candidate of candidates) {
+        const target = shareLinks[candidate];
+        if (target) urls.add(target);
+        const client = resolveClient(candidate);
+        const remotePath = client?.toRemotePath(candidate);
+        if (client && remotePath !== null && remotePath !== undefined) urls.add(client.getUrl(remotePath));
+    }
+    return Array.from(urls);
+}
+
+// 扫描仓库中所有笔记和白板，返回被引用的远程文件 URL -> 引用它的文件路径
+export async function collectReferences(app: App, resolveClient: ClientResolver, shareLinks: Record<string, string>): Promise<Map<string, string[]>> {
+    const references = new Map<string, string[]>();
+    for (const file of app.vault.getFiles().filter(f => REFERENCE_EXTENSIONS.indexOf(f.extension) >= 0)) {
+        const content = await app.vault.cachedRead(file);
+        for (const url of findReferencedUrls(content, resolveClient, shareLinks, file.extension)) {
+            const files = references.get(url) || [];
+            if (files.indexOf(file.path) < 0) files.push(file.path);
+            references.set(url, files);
+        }
+    }
+    return references;
+}
+
+// 白板中文本卡片的内容、链接卡片的地址和连线的标签；无法解析时按纯文本处理
+function getCanvasText(content: string): string {
+    try {
+        const canvas = JSON.parse(content);
+        const parts: string[] = [];
+        for (const node of canvas.nodes || []) {
+            if (typeof node.text === 'string') parts.push(node.text);
+            if (typeof node.url === 'string') parts.push(node.url);
+        }
+        for (const edge of canvas.edges || []) {
+            if (typeof edge.label === 'string') parts.push(edge.label);
+        }
+        return parts.join('\n');
+    } catch (e) {
+        return content;
+    }
+}
+
+const LINK_SIZE_REGEX = /\|\s*(\d+(?:x\d+)?)\s*$/;
+
+// 从 "alt|300" 或 "alt|300x200" 中取出尺寸
+export function getLinkSize(text: string): string {
+    const match = text.match(LINK_SIZE_REGEX);
+    return match ? match[1] : '';
+}
+
+// 去掉尺寸后的替代文字，"alt|300" -> "alt"
+export function getLinkAlt(text: string): string {
+    return text.replace(LINK_SIZE_REGEX, '').trim();
+}